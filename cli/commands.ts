@@ -0,0 +1,291 @@
+import { writeFile } from 'node:fs/promises';
+import { formatEther, parseEther } from 'ethers';
+import type { AbstractProvider } from 'ethers';
+import { CipherMode, describeCipherHex, encryptText } from '../src/lib/hexCipher';
+import { ContentType } from '../src/lib/framing';
+import { MessageKeys, TransferMode, readRawMessage } from '../src/lib/messages';
+import { createMessagingClient, describePayload } from '../src/lib/messagingClient';
+import {
+  DEFAULT_FEE_SELECTION,
+  FeeSpeed,
+  fetchFeeSuggestions,
+  parseGasLimitOverride,
+  resolveFees,
+} from '../src/lib/fees';
+import { InboxSource, decryptInbox, scanInbox } from '../src/lib/inbox';
+import {
+  Connection,
+  ConnectionOptions,
+  ENV_MESSAGE_KEY,
+  ENV_PRIVATE_KEY,
+  KeyOptions,
+  collectPassphrases,
+  loadAttachment,
+  loadWallet,
+  readStdin,
+} from './context';
+
+export type CliValues = ConnectionOptions &
+  KeyOptions & {
+    json?: boolean;
+    mode?: string;
+    to?: string;
+    message?: string;
+    file?: string;
+    out?: string;
+    value?: string;
+    'public-key'?: string;
+    'content-type'?: string;
+    'no-compress'?: boolean;
+    messenger?: string;
+    speed?: string;
+    'gas-limit'?: string;
+    wait?: boolean;
+    address?: string;
+    'from-block'?: string;
+    'to-block'?: string;
+    blocks?: string;
+    source?: string;
+    'include-legacy'?: boolean;
+  };
+
+/** data 用于 --json 输出，lines 为默认的可读输出。 */
+export type CommandResult = {
+  data: unknown;
+  lines: string[];
+};
+
+export type Command = (
+  values: CliValues,
+  positionals: string[],
+  connection: Connection,
+) => Promise<CommandResult>;
+
+const DEFAULT_INBOX_BLOCKS = 500;
+
+const pickChoice = <T extends string>(input: string, choices: readonly T[], label: string): T => {
+  if (!choices.includes(input as T)) {
+    throw new Error(`${label}只能是 ${choices.join(' / ')}，收到 ${input}`);
+  }
+  return input as T;
+};
+
+const parseBlock = (input: string, label: string) => {
+  const block = Number(input);
+  if (!Number.isInteger(block) || block < 0) {
+    throw new Error(`${label}不合法：${input}`);
+  }
+  return block;
+};
+
+const requirePassphrases = (values: CliValues) => {
+  const passphrases = collectPassphrases(values);
+  if (passphrases.length === 0) {
+    throw new Error(`请用 --key 或环境变量 ${ENV_MESSAGE_KEY} 提供口令`);
+  }
+  return passphrases;
+};
+
+const inputText = async (inline: string | undefined, label: string) => {
+  const text = inline ?? (await readStdin());
+  if (!text) {
+    throw new Error(`请提供${label}（参数或标准输入）`);
+  }
+  return text;
+};
+
+// 读取时 keystore / 环境变量私钥同时用于 ECIES 消息
+const collectMessageKeys = async (values: CliValues): Promise<MessageKeys> => {
+  const wallet = await loadWallet(values);
+  return { passphrases: collectPassphrases(values), privateKey: wallet?.privateKey };
+};
+
+const chainIdOf = async (provider: AbstractProvider) => Number((await provider.getNetwork()).chainId);
+
+const encrypt: Command = async (values, positionals) => {
+  const [passphrase] = requirePassphrases(values);
+  const mode = pickChoice<CipherMode>(values.mode ?? 'aes-gcm', ['aes-gcm', 'xor'], '加密方式');
+  const text = await inputText(positionals.join(' ') || undefined, '待加密文本');
+  const cipherHex = await encryptText(text, passphrase, mode);
+  const info = describeCipherHex(cipherHex);
+  return {
+    data: { mode, algorithm: info.kind === 'envelope' ? info.algorithm : null, cipherHex },
+    lines: [cipherHex],
+  };
+};
+
+// 与页面查询共用 readRawMessage：旧版异或没有完整性校验，解出的内容不像文本即视为密钥错误
+const decrypt: Command = async (values, positionals) => {
+  const passphrases = requirePassphrases(values);
+  const cipherHex = (await inputText(positionals[0], '16 进制密文')).trim();
+  const info = describeCipherHex(cipherHex);
+  const { content: plaintext } = await readRawMessage(cipherHex, { passphrases });
+  return {
+    data: { algorithm: info.kind === 'envelope' ? info.algorithm : 'legacy-xor', plaintext },
+    lines: [plaintext],
+  };
+};
+
+const send: Command = async (values, _positionals, connection) => {
+  if (!values.to) {
+    throw new Error('请用 --to 指定收款地址或 ENS 名称');
+  }
+  const provider = await connection.provider();
+  const wallet = await loadWallet(values, provider);
+  if (!wallet) {
+    throw new Error(`发送需要 --keystore 或环境变量 ${ENV_PRIVATE_KEY}`);
+  }
+  const mode = pickChoice<TransferMode>(
+    values.mode ?? 'aes-gcm',
+    ['aes-gcm', 'xor', 'ecies'],
+    '加密方式',
+  );
+  const contentType = pickChoice<ContentType>(
+    values['content-type'] ?? 'text',
+    ['text', 'json'],
+    '内容类型',
+  );
+  const speed = pickChoice<FeeSpeed>(values.speed ?? 'normal', ['slow', 'normal', 'fast'], '费用档位');
+  let key = values['public-key'] ?? '';
+  if (mode !== 'ecies') {
+    [key] = requirePassphrases(values);
+  }
+  if (mode === 'xor' && values.file) {
+    throw new Error('异或模式没有完整性校验，不支持 --file，请改用 aes-gcm 或 ecies');
+  }
+  const attachment = values.file ? await loadAttachment(values.file) : null;
+  const client = createMessagingClient(provider);
+  const message = await client.compose({
+    to: values.to,
+    content: attachment ? '' : await inputText(values.message, '消息内容'),
+    contentType,
+    attachment,
+    compress: !values['no-compress'],
+    mode,
+    key,
+    value: values.value ? parseEther(values.value) : 0n,
+    messenger: values.messenger ?? null,
+  });
+  const fees = resolveFees({ ...DEFAULT_FEE_SELECTION, mode: speed }, await fetchFeeSuggestions(provider));
+  const gasLimitOverride = parseGasLimitOverride({
+    ...DEFAULT_FEE_SELECTION,
+    gasLimit: values['gas-limit'] ?? '',
+  });
+  if (!values.json) {
+    client.on('sent', ({ tx, index, total }) =>
+      console.error(`已发送 ${index + 1}/${total}：${tx.hash}`),
+    );
+  }
+  const txs = await client.send(message, { signer: wallet, fees, gasLimitOverride });
+  const receipts = values.wait ? await Promise.all(txs.map((tx) => tx.wait())) : [];
+  const results = txs.map((tx, index) => ({
+    hash: tx.hash,
+    nonce: tx.nonce,
+    blockNumber: receipts[index]?.blockNumber ?? null,
+    status: receipts[index]?.status ?? null,
+  }));
+  return {
+    data: {
+      chainId: await chainIdOf(provider),
+      from: wallet.address,
+      to: message.to,
+      messenger: message.messenger,
+      valueWei: message.value,
+      frames: message.frames.length,
+      transactions: results,
+    },
+    lines: [
+      `发送方 ${wallet.address} → ${message.to}${message.messenger ? `（经 Messenger ${message.messenger}）` : ''}`,
+      ...results.map(
+        (result) =>
+          `${result.hash}  nonce ${result.nonce}${
+            result.blockNumber === null
+              ? ''
+              : `  区块 ${result.blockNumber} · ${result.status === 1 ? '成功' : '失败'}`
+          }`,
+      ),
+    ],
+  };
+};
+
+/** 与页面的交易查询一致：额外的哈希作为同一条分段消息的其余段。 */
+const read: Command = async (values, positionals, connection) => {
+  const [hash, ...extraHashes] = positionals;
+  if (!hash) {
+    throw new Error('请提供交易哈希');
+  }
+  const client = createMessagingClient(await connection.provider());
+  const { info, decoded, message, error } = await client.read(hash, {
+    keys: () => collectMessageKeys(values),
+    extraHashes,
+  });
+  const attachment = message?.attachment ?? null;
+  if (attachment && values.out) {
+    await writeFile(values.out, attachment.bytes);
+  }
+  const status = info.status === null || info.status === undefined ? '待确认' : info.status === 1 ? '成功' : '失败';
+  return {
+    data: { ...info, call: decoded.call?.signature ?? null, message, error },
+    lines: [
+      `交易    ${info.hash}`,
+      `发送方  ${info.from}`,
+      `接收方  ${info.messageTo ? `${info.messageTo}（经 Messenger ${info.to}）` : info.to ?? '合约创建'}`,
+      `金额    ${info.valueEth} ETH`,
+      `区块    ${info.blockNumber ?? '—'} · ${status}`,
+      ...(decoded.call ? [`调用    ${decoded.call.signature}`] : []),
+      info.data === '0x'
+        ? '消息    （无 data）'
+        : message
+          ? `消息    [${describePayload(message)}] ${message.content}`
+          : `消息    ${error ?? '未识别为加密消息，可能是普通合约调用'}`,
+      ...(attachment
+        ? [values.out ? `附件    已保存到 ${values.out}` : '附件    使用 --out <文件> 保存']
+        : []),
+    ],
+  };
+};
+
+const inbox: Command = async (values, _positionals, connection) => {
+  const provider = await connection.provider();
+  const address = values.address ?? (await loadWallet(values))?.address;
+  if (!address) {
+    throw new Error(`请用 --address 指定收件地址，或提供 --keystore / ${ENV_PRIVATE_KEY}`);
+  }
+  const source = pickChoice<InboxSource>(values.source ?? 'blocks', ['blocks', 'messenger'], '消息来源');
+  const toBlock = values['to-block']
+    ? parseBlock(values['to-block'], '结束区块')
+    : await provider.getBlockNumber();
+  const fromBlock = values['from-block']
+    ? parseBlock(values['from-block'], '起始区块')
+    : Math.max(0, toBlock - parseBlock(values.blocks ?? String(DEFAULT_INBOX_BLOCKS), '区块数') + 1);
+  const result = await scanInbox({
+    provider,
+    chainId: await chainIdOf(provider),
+    address,
+    fromBlock,
+    toBlock,
+    source,
+    messengerAddress: values.messenger,
+    includeLegacy: !!values['include-legacy'],
+    persist: false,
+    onProgress: values.json
+      ? undefined
+      : ({ scanned, total, found }) =>
+          console.error(`已扫描 ${scanned} / ${total} 个区块，找到 ${found} 条消息`),
+  });
+  const messages = await decryptInbox(result.entries, await collectMessageKeys(values));
+  return {
+    data: { address: result.address, fromBlock, toBlock, source, messages },
+    lines: [
+      `${result.address} 在区块 ${fromBlock} - ${toBlock} 内共 ${messages.length} 条消息`,
+      ...messages.map(
+        (entry) =>
+          `#${entry.blockNumber} ${entry.hash}\n  来自 ${entry.from}${
+            entry.valueWei !== '0' ? ` · ${formatEther(entry.valueWei)} ETH` : ''
+          }${entry.chunks > 1 ? ` · ${entry.chunks} 段` : ''}\n  ${entry.plaintext ?? `（${entry.error}）`}`,
+      ),
+    ],
+  };
+};
+
+export const COMMANDS: Record<string, Command> = { encrypt, decrypt, send, read, inbox };
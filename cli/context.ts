@@ -0,0 +1,126 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { JsonRpcProvider, Network, Wallet } from 'ethers';
+import type { AbstractProvider, BaseWallet } from 'ethers';
+import { PRESET_NETWORKS, findNetwork } from '../src/lib/networks';
+import { createReadProvider } from '../src/lib/readProvider';
+import { Attachment, MAX_ATTACHMENT_BYTES, sniffMimeType } from '../src/lib/attachments';
+import { formatBytes } from '../src/lib/format';
+
+export const ENV_PRIVATE_KEY = 'SEPOLIA_PRIVATE_KEY';
+export const ENV_KEYSTORE_PASSWORD = 'SEPOLIA_KEYSTORE_PASSWORD';
+export const ENV_MESSAGE_KEY = 'SEPOLIA_MESSAGE_KEY';
+
+const DEFAULT_CHAIN_ID = 11155111;
+
+export type ConnectionOptions = {
+  rpc?: string;
+  chain?: string;
+};
+
+export type KeyOptions = {
+  keystore?: string;
+  key?: string[];
+};
+
+const parseChainId = (input: string) => {
+  const chainId = Number(input);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`链 ID 不合法：${input}`);
+  }
+  return chainId;
+};
+
+// 只探测一次链 ID：ethers 的自动网络探测在节点不可达时会无限重试，命令永远不会退出
+const probeChainId = async (rpc: string) => {
+  const probeNetwork = Network.from(DEFAULT_CHAIN_ID);
+  const probe = new JsonRpcProvider(rpc, probeNetwork, { staticNetwork: probeNetwork });
+  try {
+    return Number(await probe.send('eth_chainId', []));
+  } catch {
+    throw new Error(`无法连接 ${rpc}，请检查 --rpc 地址或用 --chain 指定链 ID`);
+  } finally {
+    probe.destroy();
+  }
+};
+
+/**
+ * --rpc 直接连接指定节点（同时给出 --chain 时跳过探测）；
+ * 只给 --chain 时使用网络注册表预置的 RPC，默认 Sepolia。网络一律固定，不做自动探测。
+ */
+export const createProvider = async ({ rpc, chain }: ConnectionOptions): Promise<AbstractProvider> => {
+  if (rpc) {
+    const staticNetwork = Network.from(chain ? parseChainId(chain) : await probeChainId(rpc));
+    return new JsonRpcProvider(rpc, staticNetwork, { staticNetwork });
+  }
+  const chainId = chain ? parseChainId(chain) : DEFAULT_CHAIN_ID;
+  const network = findNetwork(PRESET_NETWORKS, chainId);
+  if (!network) {
+    throw new Error(`注册表中没有链 ${chainId}，请用 --rpc 指定节点`);
+  }
+  return createReadProvider(network);
+};
+
+export type Connection = {
+  // 首次调用时才连接，encrypt / decrypt 等离线命令不会触发网络请求
+  provider: () => Promise<AbstractProvider>;
+  destroy: () => Promise<void>;
+};
+
+/** 命令共享的节点连接，由入口在命令结束后统一销毁。 */
+export const createConnection = (options: ConnectionOptions): Connection => {
+  let opened: Promise<AbstractProvider> | null = null;
+  return {
+    provider: () => (opened ??= createProvider(options)),
+    destroy: async () => {
+      const provider = await opened?.catch(() => null);
+      provider?.destroy();
+    },
+  };
+};
+
+/** 签名账户：优先 --keystore（口令取自环境变量），其次环境变量中的私钥；都没有时返回 null。 */
+export const loadWallet = async (
+  { keystore }: KeyOptions,
+  provider: AbstractProvider | null = null,
+): Promise<BaseWallet | null> => {
+  if (keystore) {
+    const password = process.env[ENV_KEYSTORE_PASSWORD];
+    if (!password) {
+      throw new Error(`请通过环境变量 ${ENV_KEYSTORE_PASSWORD} 提供 keystore 口令`);
+    }
+    const wallet = await Wallet.fromEncryptedJson(await readFile(keystore, 'utf8'), password);
+    return provider ? wallet.connect(provider) : wallet;
+  }
+  const privateKey = process.env[ENV_PRIVATE_KEY]?.trim();
+  return privateKey ? new Wallet(privateKey, provider) : null;
+};
+
+/** --key 可重复；环境变量中的口令排在最后，便于在 CI 中避免口令出现在命令行里。 */
+export const collectPassphrases = ({ key = [] }: KeyOptions): string[] => {
+  const fromEnv = process.env[ENV_MESSAGE_KEY];
+  return [...new Set([...key, ...(fromEnv ? [fromEnv] : [])])].filter((item) => item.trim());
+};
+
+/** 命令行没有浏览器提供的 MIME 类型，一律按文件内容识别。 */
+export const loadAttachment = async (path: string): Promise<Attachment> => {
+  const bytes = new Uint8Array(await readFile(path));
+  if (bytes.length === 0) {
+    throw new Error('文件为空');
+  }
+  if (bytes.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`文件过大（${formatBytes(bytes.length)}），上限 ${formatBytes(MAX_ATTACHMENT_BYTES)}`);
+  }
+  return { name: basename(path), mimeType: sniffMimeType(bytes), bytes };
+};
+
+export const readStdin = async (): Promise<string> => {
+  if (process.stdin.isTTY) {
+    return '';
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '');
+};
@@ -0,0 +1,105 @@
+import { parseArgs } from 'node:util';
+import { hexlify } from 'ethers';
+import { COMMANDS, CliValues } from './commands';
+import { ENV_KEYSTORE_PASSWORD, ENV_MESSAGE_KEY, ENV_PRIVATE_KEY, createConnection } from './context';
+
+const USAGE = `用法：npm run cli -- <命令> [选项]
+
+命令：
+  encrypt [文本]             用口令加密文本，输出 16 进制密文（未给文本时读取标准输入）
+  decrypt [密文]             用口令解密 16 进制密文
+  send --to <地址|ENS>       发送加密消息，--message 为空时读取标准输入；--file <文件> 发送附件
+  read <哈希> [其余段哈希]   查询交易并解密 calldata 或 Messenger 事件中的消息；--out <文件> 保存附件
+  inbox                      扫描区块范围内发给指定地址的加密消息
+
+通用选项：
+  --json                     输出 JSON
+  --rpc <url>                节点地址；不填时按 --chain 使用注册表中的 RPC
+  --chain <id>               链 ID，默认 11155111（Sepolia）
+  --key <口令>               消息口令，可重复；也可用环境变量 ${ENV_MESSAGE_KEY}
+  --keystore <文件>          keystore JSON，口令取自环境变量 ${ENV_KEYSTORE_PASSWORD}；
+                             未提供时使用环境变量 ${ENV_PRIVATE_KEY}
+
+encrypt / send：
+  --mode <aes-gcm|xor|ecies> 加密方式，ecies 仅用于 send，需配合 --public-key
+  --content-type <text|json> --no-compress --value <ETH> --messenger <合约地址>
+  --speed <slow|normal|fast> --gas-limit <数量> --wait（等待上链）
+
+inbox：
+  --address <地址>           默认为签名账户地址
+  --from-block <n> --to-block <n> --blocks <最近区块数，默认 500>
+  --source <blocks|messenger> --messenger <合约地址> --include-legacy`;
+
+// bigint 与附件字节无法直接序列化为 JSON，分别转成十进制字符串与 16 进制
+const toJson = (data: unknown) =>
+  JSON.stringify(
+    data,
+    (_, value) =>
+      typeof value === 'bigint' ? value.toString() : value instanceof Uint8Array ? hexlify(value) : value,
+    2,
+  );
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      help: { type: 'boolean', short: 'h' },
+      json: { type: 'boolean' },
+      rpc: { type: 'string' },
+      chain: { type: 'string' },
+      key: { type: 'string', multiple: true },
+      keystore: { type: 'string' },
+      mode: { type: 'string' },
+      to: { type: 'string' },
+      message: { type: 'string' },
+      file: { type: 'string' },
+      out: { type: 'string' },
+      value: { type: 'string' },
+      'public-key': { type: 'string' },
+      'content-type': { type: 'string' },
+      'no-compress': { type: 'boolean' },
+      messenger: { type: 'string' },
+      speed: { type: 'string' },
+      'gas-limit': { type: 'string' },
+      wait: { type: 'boolean' },
+      address: { type: 'string' },
+      'from-block': { type: 'string' },
+      'to-block': { type: 'string' },
+      blocks: { type: 'string' },
+      source: { type: 'string' },
+      'include-legacy': { type: 'boolean' },
+    },
+  });
+  const [name, ...args] = positionals;
+  const command = name ? COMMANDS[name] : undefined;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+  const options = values as CliValues;
+  const connection = createConnection(options);
+  try {
+    const { data, lines } = await command(options, args, connection);
+    console.log(options.json ? toJson(data) : lines.join('\n'));
+    return 0;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (options.json) {
+      console.log(toJson({ error: message }));
+    } else {
+      console.error(`错误：${message}`);
+    }
+    return 1;
+  } finally {
+    await connection.destroy();
+  }
+};
+
+// 显式退出：残留的轮询或未完成的请求不应让进程挂住
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title Messenger
+/// @notice 只负责发出事件的加密消息中转合约，不保存状态也不接收 ETH。
+contract Messenger {
+    event Message(address indexed from, address indexed to, bytes payload);
+
+    function postMessage(address to, bytes calldata payload) external {
+        emit Message(msg.sender, to, payload);
+    }
+}
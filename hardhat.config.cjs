@@ -0,0 +1,6 @@
+// 仅供测试使用进程内的 Hardhat Network；Messenger 字节码内置在 src/lib/messenger.ts，无需编译
+module.exports = {
+  networks: {
+    hardhat: { chainId: 31337 },
+  },
+};
@@ -1,88 +1,237 @@
 import { useEffect, useMemo, useState } from 'react';
-import { BrowserProvider, ZeroAddress, formatEther, getAddress, parseEther } from 'ethers';
-import { decryptHexToText, encryptTextToHex } from './lib/hexCipher';
+import {
+  AbstractProvider,
+  BrowserProvider,
+  JsonRpcApiProvider,
+  TransactionRequest,
+  TransactionReceipt,
+  TransactionResponse,
+  ZeroAddress,
+  formatEther,
+  formatUnits,
+  getAddress,
+  isAddress,
+  isError,
+  parseEther,
+} from 'ethers';
+import { CipherMode, decryptText, encryptText } from './lib/hexCipher';
+import { recoverPublicKeyFromTx } from './lib/ecies';
+import { ContentType, DEFAULT_CHUNK_SIZE } from './lib/framing';
+import { TransferMode } from './lib/messages';
+import { deployMessenger, loadMessengerAddress, saveMessengerAddress } from './lib/messenger';
+import {
+  DEFAULT_FEE_SELECTION,
+  FeeSelection,
+  FeeSuggestions,
+  GasEstimate,
+  estimateGasLimit,
+  fetchFeeSuggestions,
+  parseGasLimitOverride,
+  resolveFees,
+  summarizeCost,
+} from './lib/fees';
+import { looksLikeEnsName, resolveRecipient, supportsEns } from './lib/ens';
+import { VaultKey, keyForRecipient } from './lib/keyVault';
+import {
+  WalletOption,
+  discoverWallets,
+  pickWallet,
+  savePreferredWallet,
+} from './lib/wallets';
+import { formatAddress } from './lib/format';
+import { isUserRejection } from './lib/errors';
+import { Attachment } from './lib/attachments';
+import {
+  LOCAL_CHAIN_ID,
+  findNetwork,
+  loadNetworks,
+  toAddEthereumChainParams,
+} from './lib/networks';
+import { DevNode } from './lib/devChain';
+import { LocalWallet, SignerSource, localSignerSource } from './lib/localWallet';
+import { createReadProvider } from './lib/readProvider';
+import {
+  TxRecord,
+  applyReplacement,
+  loadTxHistory,
+  receiptPatch,
+  recordFromResponse,
+  refreshPendingTxs,
+  updateTxRecord,
+  upsertTxRecord,
+} from './lib/txStore';
+import { ReplacementAction, sendReplacement } from './lib/txReplacement';
+import { CONTENT_TYPE_LABELS } from './lib/messagingClient';
+import { hashMessagePayload } from './lib/typedData';
+import EnsAddress from './components/EnsAddress';
+import FeePanel from './components/FeePanel';
+import BatchSendCard from './components/BatchSendCard';
+import ContractConsoleCard from './components/ContractConsoleCard';
+import DevChainCard from './components/DevChainCard';
+import LocalWalletCard from './components/LocalWalletCard';
+import AttachmentPicker from './components/AttachmentPicker';
+import InboxCard from './components/InboxCard';
+import NetworkRegistryCard from './components/NetworkRegistryCard';
+import SignatureCard from './components/SignatureCard';
+import TokenCard from './components/TokenCard';
+import TypedDataCard from './components/TypedDataCard';
+import TxHistoryCard from './components/TxHistoryCard';
+import TxLookupCard from './components/TxLookupCard';
+import VaultCard from './components/VaultCard';
+import WalletPicker from './components/WalletPicker';
+import { useMessagingClient } from './hooks/useMessagingClient';
+import { useWalletSession } from './hooks/useWalletSession';
+import { useMessageSender } from './hooks/useMessageSender';
 import './App.css';
 
 type Nullable<T> = T | null;
 
-const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
-const SUPPORTED_NETWORKS = [
-  {
-    chainId: 11155111,
-    hex: '0xaa36a7',
-    name: 'Sepolia',
-    rpcUrls: ['https://rpc.sepolia.org'],
-    blockExplorerUrls: ['https://sepolia.etherscan.io'],
-    nativeCurrency: { name: 'SepoliaETH', symbol: 'ETH', decimals: 18 },
-  },
-  {
-    chainId: 1,
-    hex: '0x1',
-    name: 'Ethereum Mainnet',
-    rpcUrls: ['https://cloudflare-eth.com'],
-    blockExplorerUrls: ['https://etherscan.io'],
-    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-  },
+const CIPHER_MODES: { value: CipherMode; label: string }[] = [
+  { value: 'aes-gcm', label: 'AES-GCM（推荐，带完整性校验）' },
+  { value: 'xor', label: '异或（旧版兼容）' },
 ];
+const TRANSFER_MODES: { value: TransferMode; label: string }[] = [
+  ...CIPHER_MODES,
+  { value: 'ecies', label: 'ECIES（接收方公钥加密）' },
+];
+// 钱包返回的账户可能是小写，统一为校验和格式；当前账户仍在授权列表中时保持不变
+const normalizeAccounts = (accounts: string[]) => accounts.map((account) => getAddress(account));
+const keepOrFirst = (current: string, accounts: string[]) =>
+  accounts.find((account) => account.toLowerCase() === current.toLowerCase()) ?? accounts[0] ?? '';
 
 function App() {
-  const [provider, setProvider] = useState<Nullable<BrowserProvider>>(null);
+  const [wallets, setWallets] = useState<WalletOption[]>([]);
+  const [wallet, setWallet] = useState<Nullable<WalletOption>>(null);
+  const [walletProvider, setWalletProvider] = useState<Nullable<BrowserProvider>>(null);
+  // 钱包切换链时递增，触发重新创建 BrowserProvider（旧实例在 effect 清理时销毁）
+  const [providerEpoch, setProviderEpoch] = useState(0);
+  const [networks, setNetworks] = useState(loadNetworks);
+  const [readOnlyProvider, setReadOnlyProvider] = useState<Nullable<AbstractProvider>>(null);
+  const [readOnlyChain, setReadOnlyChain] = useState<Nullable<number>>(null);
   const [address, setAddress] = useState('');
-  const [balance, setBalance] = useState<Nullable<string>>(null);
+  const [accounts, setAccounts] = useState<string[]>([]);
+  const [accountBalances, setAccountBalances] = useState<Record<string, bigint>>({});
   const [chainId, setChainId] = useState<Nullable<number>>(null);
-  const [latestBlock, setLatestBlock] = useState<Nullable<number>>(null);
   const [status, setStatus] = useState('');
   const [error, setError] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
   const [isReading, setIsReading] = useState(false);
   const [isSwitching, setIsSwitching] = useState(false);
-  const [isSending, setIsSending] = useState(false);
-  const [isFetchingTx, setIsFetchingTx] = useState(false);
 
   const [textToEncrypt, setTextToEncrypt] = useState('Hello, Sepolia!');
   const [cipherKey, setCipherKey] = useState('sepolia-demo-key');
+  const [cipherMode, setCipherMode] = useState<CipherMode>('aes-gcm');
   const [encryptedHex, setEncryptedHex] = useState('');
   const [hexToDecrypt, setHexToDecrypt] = useState('');
   const [decryptedText, setDecryptedText] = useState('');
   const [targetChain, setTargetChain] = useState(11155111);
   const [targetAddress, setTargetAddress] = useState(ZeroAddress);
   const [transferMessage, setTransferMessage] = useState('Encrypted hello on-chain');
+  const [transferAttachment, setTransferAttachment] = useState<Nullable<Attachment>>(null);
   const [transferValue, setTransferValue] = useState('0');
-  const [txHash, setTxHash] = useState('');
+  const [transferMode, setTransferMode] = useState<TransferMode>('aes-gcm');
+  const [transferContentType, setTransferContentType] = useState<ContentType>('text');
+  const [compressMessage, setCompressMessage] = useState(true);
+  const [useMessenger, setUseMessenger] = useState(false);
+  const [messengerAddress, setMessengerAddress] = useState('');
+  const [isDeployingMessenger, setIsDeployingMessenger] = useState(false);
+  const [recipientPublicKey, setRecipientPublicKey] = useState('');
+  const [publicKeyTxHash, setPublicKeyTxHash] = useState('');
+  const [isRecoveringKey, setIsRecoveringKey] = useState(false);
   const [lookupHash, setLookupHash] = useState('');
-  const [txInfo, setTxInfo] = useState<Nullable<{
-    hash: string;
-    from: string;
-    to: string | null;
-    valueEth: string;
-    data: string;
-    blockNumber: number | null;
-    status?: number | null;
+  const [balanceLookup, setBalanceLookup] = useState('');
+  const [lookupBalance, setLookupBalance] = useState<Nullable<string>>(null);
+  const [txHistory, setTxHistory] = useState<TxRecord[]>([]);
+  const [replacingHash, setReplacingHash] = useState('');
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION);
+  const [feeSuggestions, setFeeSuggestions] = useState<Nullable<FeeSuggestions>>(null);
+  const [feeEstimate, setFeeEstimate] = useState<Nullable<{
+    key: string;
+    estimates: GasEstimate[];
+    valueWei: bigint;
   }>>(null);
-  const [txDecrypted, setTxDecrypted] = useState('');
+  const [isLoadingFees, setIsLoadingFees] = useState(false);
+  const [lastMessage, setLastMessage] = useState<Nullable<{ to: string; payloadHash: string }>>(null);
+  const [vaultKeys, setVaultKeys] = useState<Nullable<VaultKey[]>>(null);
+  const [devNode, setDevNode] = useState<Nullable<DevNode>>(null);
+  const [useDevAccounts, setUseDevAccounts] = useState(false);
+  const [localWallet, setLocalWallet] = useState<Nullable<LocalWallet>>(null);
+  const [recipientResolution, setRecipientResolution] = useState<{
+    address: string;
+    viaEns: boolean;
+    error: string;
+  }>({ address: '', viaEns: false, error: '' });
+
+  // 签名走浏览器钱包，或本地开发节点的已解锁账户（两者都是 JSON-RPC 签名者）
+  const usingDevAccounts = useDevAccounts && !!devNode;
+  const provider: Nullable<JsonRpcApiProvider> =
+    usingDevAccounts && devNode ? devNode.provider : walletProvider;
+  // 本地 keystore 钱包解锁后优先于以上两者，读写都走注册表 RPC 构建的 JsonRpcProvider
+  const usingLocalWallet = !!localWallet;
+  // 只读操作优先走钱包，未安装钱包时退回到注册表 RPC 构建的 Provider
+  const readProvider: Nullable<AbstractProvider> = usingLocalWallet
+    ? readOnlyProvider
+    : provider ?? readOnlyProvider;
+  const signerSource = useMemo<Nullable<SignerSource>>(() => {
+    if (!localWallet) return provider;
+    return readOnlyProvider ? localSignerSource(localWallet, readOnlyProvider) : null;
+  }, [localWallet, readOnlyProvider, provider]);
+  const signerName = usingLocalWallet
+    ? '本地钱包'
+    : usingDevAccounts
+      ? '本地开发账户'
+      : wallet?.info.name ?? 'MetaMask';
+  // 区块、baseFee、余额与入账交易由会话随新区块维护；provider 或地址变化时重建
+  const { session, snapshot } = useWalletSession(readProvider, address);
+  const messaging = useMessagingClient(readProvider);
+  const sender = useMessageSender(messaging);
+  const clearSentHashes = sender.clear;
+  const balance = snapshot.balanceWei === null ? null : formatEther(snapshot.balanceWei);
+  const { blockNumber: latestBlock, baseFeePerGas: baseFee, watchSource, incoming: incomingTxs } =
+    snapshot;
+
+  useEffect(
+    () =>
+      discoverWallets((found) => {
+        setWallets(found);
+        setWallet((current) =>
+          current && found.some((item) => item.info.uuid === current.info.uuid)
+            ? current
+            : pickWallet(found),
+        );
+        if (found.length === 0) {
+          setStatus('未检测到钱包，已进入 RPC 只读模式：可读取区块、余额与交易，签名操作不可用。');
+          setReadOnlyChain((current) => current ?? 11155111);
+        }
+      }),
+    [],
+  );
 
   useEffect(() => {
-    if (!window.ethereum) {
-      setStatus('未检测到 MetaMask，请先安装或启用浏览器钱包。');
-      return;
-    }
-    const freshProvider = new BrowserProvider(window.ethereum, 'any');
-    setProvider(freshProvider);
-    setStatus('钱包已就绪，点击连接开始。');
-  }, []);
+    if (!wallet) return;
+    const freshProvider = new BrowserProvider(wallet.provider, 'any');
+    setWalletProvider(freshProvider);
+    return () => freshProvider.destroy();
+  }, [wallet, providerEpoch]);
+
+  useEffect(() => {
+    if (!devNode) return;
+    return () => devNode.provider.destroy();
+  }, [devNode]);
 
   useEffect(() => {
-    if (!provider) return;
+    if (!provider || localWallet) return;
     const syncConnection = async () => {
       try {
-        const accounts = await provider.listAccounts();
-        if (accounts.length > 0) {
-          const account = accounts[0];
-          const accountAddress = typeof account === 'string' ? account : account.address;
-          setAddress(accountAddress);
+        const authorized = normalizeAccounts(
+          (await provider.listAccounts()).map((account) => account.address),
+        );
+        setAccounts(authorized);
+        if (authorized.length > 0) {
+          setAddress((current) => keepOrFirst(current, authorized));
           setStatus('检测到已连接的钱包');
-          await Promise.all([refreshBalance(accountAddress, provider), readChainData(provider)]);
         } else {
+          setAddress('');
           setStatus('钱包已就绪，点击连接开始。');
         }
       } catch (err) {
@@ -90,60 +239,192 @@ function App() {
       }
     };
     void syncConnection();
-  }, [provider]);
+  }, [provider, localWallet]);
 
   useEffect(() => {
-    if (!window.ethereum?.on) {
+    const injected = wallet?.provider;
+    // 使用开发账户或本地钱包时忽略浏览器钱包的账户与网络切换
+    if (!injected?.on || usingDevAccounts || usingLocalWallet) {
       return;
     }
-    const handleAccountsChanged = (accounts: string[]) => {
-      if (accounts.length === 0) {
+    const handleAccountsChanged = (changed: string[]) => {
+      const authorized = normalizeAccounts(changed);
+      setAccounts(authorized);
+      if (authorized.length === 0) {
         setAddress('');
-        setBalance(null);
         return;
       }
-      setAddress(accounts[0]);
-      refreshBalance(accounts[0]);
+      setAddress((current) => keepOrFirst(current, authorized));
     };
 
     const handleChainChanged = (hexChainId: string) => {
       const nextId = parseInt(hexChainId, 16);
       setChainId(nextId);
       setTargetChain(nextId);
-      setLatestBlock(null);
-      setTxInfo(null);
-      setTxDecrypted('');
-      setTxHash('');
-      const freshProvider = new BrowserProvider(window.ethereum, 'any');
-      setProvider(freshProvider);
-      void refreshBalance(address, freshProvider);
-      void readChainData(freshProvider);
+      clearSentHashes();
+      setProviderEpoch((epoch) => epoch + 1);
+    };
+
+    injected.on('accountsChanged', handleAccountsChanged);
+    injected.on('chainChanged', handleChainChanged);
+    return () => {
+      injected.removeListener?.('accountsChanged', handleAccountsChanged);
+      injected.removeListener?.('chainChanged', handleChainChanged);
     };
+  }, [wallet, usingDevAccounts, usingLocalWallet, clearSentHashes]);
+
+  // 所有已授权账户的余额随区块刷新，便于选择签名账户
+  useEffect(() => {
+    if (!readProvider || accounts.length === 0) {
+      setAccountBalances({});
+      return;
+    }
+    let cancelled = false;
+    Promise.all(accounts.map((account) => readProvider.getBalance(account)))
+      .then((balances) => {
+        if (cancelled) return;
+        setAccountBalances(
+          Object.fromEntries(accounts.map((account, index) => [account, balances[index]])),
+        );
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [readProvider, accounts, latestBlock, balance]);
+
+  useEffect(() => {
+    if (snapshot.chainId === null) return;
+    setChainId(snapshot.chainId);
+    setTargetChain(snapshot.chainId);
+  }, [snapshot.chainId]);
+
+  useEffect(() => {
+    if (!session) return;
+    const offIncoming = session.on('incoming', (txs) =>
+      setStatus(`收到 ${txs.length} 笔发往当前地址的交易，区块 ${txs[0].blockNumber}`),
+    );
+    const offError = session.on('error', (err) =>
+      setError(err instanceof Error ? err.message : '读取链上数据失败'),
+    );
+    return () => {
+      offIncoming();
+      offError();
+    };
+  }, [session]);
+
+  // 输入停顿后再解析 ENS，避免每敲一个字符都请求一次
+  useEffect(() => {
+    const input = targetAddress.trim();
+    const viaEns = looksLikeEnsName(input);
+    if (!viaEns) {
+      setRecipientResolution({ address: isAddress(input) ? getAddress(input) : '', viaEns, error: '' });
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      resolveRecipient(readProvider, chainId, input)
+        .then((resolved) => {
+          if (!cancelled) setRecipientResolution({ address: resolved, viaEns, error: '' });
+        })
+        .catch((err) => {
+          if (!cancelled) {
+            setRecipientResolution({
+              address: '',
+              viaEns,
+              error: err instanceof Error ? err.message : 'ENS 解析失败',
+            });
+          }
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [targetAddress, readProvider, chainId]);
+
+  useEffect(() => {
+    setMessengerAddress(chainId ? loadMessengerAddress(chainId) : '');
+    setTxHistory(chainId ? loadTxHistory(chainId) : []);
+  }, [chainId]);
 
-    window.ethereum.on('accountsChanged', handleAccountsChanged);
-    window.ethereum.on('chainChanged', handleChainChanged);
+  useEffect(() => {
+    if (!readProvider) return;
+    let cancelled = false;
+    setFeeSuggestions(null);
+    fetchFeeSuggestions(readProvider)
+      .then((suggestions) => {
+        if (!cancelled) setFeeSuggestions(suggestions);
+      })
+      .catch(() => undefined);
     return () => {
-      window.ethereum?.removeListener?.('accountsChanged', handleAccountsChanged);
-      window.ethereum?.removeListener?.('chainChanged', handleChainChanged);
+      cancelled = true;
     };
-  }, [provider]);
+  }, [readProvider, chainId]);
+
+  useEffect(() => {
+    if (readOnlyChain === null) return;
+    const network = findNetwork(networks, readOnlyChain);
+    if (!network) {
+      setError('不支持的网络');
+      return;
+    }
+    let freshProvider: AbstractProvider;
+    try {
+      freshProvider = createReadProvider(network);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '创建只读 Provider 失败');
+      return;
+    }
+    setReadOnlyProvider(freshProvider);
+    setChainId(network.chainId);
+    setTargetChain(network.chainId);
+    return () => freshProvider.destroy();
+  }, [readOnlyChain, networks]);
+
+  // 解锁后账户列表只剩本地钱包；锁定后由 syncConnection 恢复浏览器钱包的授权账户
+  const handleLocalWalletChange = (next: Nullable<LocalWallet>) => {
+    setLocalWallet(next);
+    if (next) {
+      setAccounts([next.address]);
+      setAddress(next.address);
+      setReadOnlyChain((current) => current ?? chainId ?? targetChain);
+    } else {
+      setAccounts([]);
+      setAddress('');
+    }
+  };
+
+  const handleSelectWallet = (uuid: string) => {
+    const next = wallets.find((item) => item.info.uuid === uuid);
+    if (!next || next.info.uuid === wallet?.info.uuid) return;
+    savePreferredWallet(next.info.rdns);
+    setWallet(next);
+    setAccounts([]);
+    setAddress('');
+    setStatus(`已切换到 ${next.info.name}，点击连接授权账户`);
+  };
 
   const connectWallet = async () => {
     setError('');
+    if (usingLocalWallet) {
+      setStatus('正在使用本地钱包，锁定后可连接浏览器钱包');
+      return;
+    }
     if (!provider) {
-      setStatus('需要 MetaMask 或兼容钱包。');
+      setStatus('需要 MetaMask、Rabby 等兼容钱包。');
       return;
     }
     setIsConnecting(true);
     try {
-      const accounts = await provider.send('eth_requestAccounts', []);
-      if (!accounts || accounts.length === 0) {
+      const requested: string[] = await provider.send('eth_requestAccounts', []);
+      if (!requested || requested.length === 0) {
         throw new Error('未能获取钱包地址');
       }
-      const account = accounts[0];
-      setAddress(account);
-      setStatus('钱包已连接');
-      await Promise.all([refreshBalance(account), readChainData()]);
+      const authorized = normalizeAccounts(requested);
+      setAccounts(authorized);
+      setAddress((current) => keepOrFirst(current, authorized));
+      setStatus(`${signerName}已连接，共 ${authorized.length} 个授权账户`);
     } catch (err) {
       setError(err instanceof Error ? err.message : '连接钱包失败');
     } finally {
@@ -151,70 +432,71 @@ function App() {
     }
   };
 
-  const refreshBalance = async (
-    targetAddress = address,
-    customProvider: Nullable<BrowserProvider> = provider,
-  ) => {
-    if (!customProvider || !targetAddress) {
+  const readChainData = async () => {
+    if (!session) {
       return;
     }
+    setIsReading(true);
     setError('');
     try {
-      const rawBalance = await customProvider.getBalance(targetAddress);
-      setBalance(formatEther(rawBalance));
+      await session.refresh();
     } catch (err) {
-      setError(err instanceof Error ? err.message : '读取余额失败');
+      setError(err instanceof Error ? err.message : '读取链上数据失败');
+    } finally {
+      setIsReading(false);
     }
   };
 
-  const readChainData = async (customProvider: Nullable<BrowserProvider> = provider) => {
-    if (!customProvider) {
+  const handleLookupBalance = async () => {
+    if (!readProvider) {
       return;
     }
-    setIsReading(true);
     setError('');
+    setLookupBalance(null);
     try {
-      const [blockNumber, network] = await Promise.all([
-        customProvider.getBlockNumber(),
-        customProvider.getNetwork(),
-      ]);
-      setLatestBlock(Number(blockNumber));
-      setChainId(Number(network.chainId));
-      setTargetChain(Number(network.chainId));
+      const target = getAddress(balanceLookup.trim());
+      setLookupBalance(formatEther(await readProvider.getBalance(target)));
     } catch (err) {
-      setError(err instanceof Error ? err.message : '读取链上数据失败');
-    } finally {
-      setIsReading(false);
+      setError(err instanceof Error ? err.message : '读取余额失败');
     }
   };
 
   const handleSwitchNetwork = async () => {
-    if (!provider) {
-      setStatus('请先连接钱包');
+    if (usingDevAccounts) {
+      setStatus('正在使用本地开发账户，请先切回浏览器钱包再切换网络');
+      return;
+    }
+    // 本地钱包与只读模式一样，切换网络即重建注册表 RPC 的 Provider
+    if (!provider || usingLocalWallet) {
+      if (readOnlyChain === null) {
+        setStatus('请先连接钱包');
+        return;
+      }
+      const target = findNetwork(networks, targetChain);
+      setReadOnlyChain(targetChain);
+      setLookupBalance(null);
+      setStatus(`只读模式已切换到 ${target?.name ?? targetChain}`);
       return;
     }
     setError('');
     setIsSwitching(true);
     try {
-      const target = SUPPORTED_NETWORKS.find((n) => n.chainId === targetChain);
+      const target = findNetwork(networks, targetChain);
       if (!target) {
         throw new Error('不支持的网络');
       }
+      // 钱包随后会触发 chainChanged，由监听统一重建 provider 并刷新数据
       await provider.send('wallet_switchEthereumChain', [{ chainId: target.hex }]);
       setStatus(`已切换到 ${target.name}`);
-      setTxInfo(null);
-      setTxDecrypted('');
-      setTxHash('');
-      const freshProvider = new BrowserProvider(window.ethereum, 'any');
-      setProvider(freshProvider);
-      await Promise.all([readChainData(freshProvider), refreshBalance(address, freshProvider)]);
+      clearSentHashes();
     } catch (err: unknown) {
-      const errorCode = (err as { code?: number }).code;
-      if (errorCode === 4902) {
+      // ethers 会把钱包的 RPC 错误包在 error 字段里
+      const { code, error: rpcError } = err as { code?: number; error?: { code?: number } };
+      if (code === 4902 || rpcError?.code === 4902) {
         try {
-          const target = SUPPORTED_NETWORKS.find((n) => n.chainId === targetChain);
+          const target = findNetwork(networks, targetChain);
           if (!target) throw new Error('不支持的网络');
-          await provider.send('wallet_addEthereumChain', [target]);
+          await provider.send('wallet_addEthereumChain', [toAddEthereumChainParams(target)]);
           setStatus(`已添加并切换到 ${target.name}`);
           await readChainData();
         } catch (innerErr) {
@@ -228,109 +510,296 @@ function App() {
     }
   };
 
+  // 预估费用与真正发送共用同一套组装逻辑，两者的 calldata 长度一致
+  const buildTransferMessage = async () => {
+    if (!messaging) {
+      throw new Error('请先连接钱包');
+    }
+    const to = await resolveRecipient(readProvider, chainId, targetAddress);
+    // 保险库解锁时优先使用与收款地址绑定的口令
+    const vaultKey = transferMode === 'ecies' ? null : keyForRecipient(vaultKeys, to);
+    const message = await messaging.compose({
+      to,
+      content: transferMessage,
+      contentType: transferContentType,
+      attachment: transferAttachment,
+      compress: compressMessage,
+      mode: transferMode,
+      key: transferMode === 'ecies' ? recipientPublicKey : vaultKey?.key ?? cipherKey,
+      value: transferValue.trim() ? parseEther(transferValue) : 0n,
+      messenger: useMessenger ? messengerAddress : null,
+    });
+    return { message, vaultKey };
+  };
+
+  const recipientVaultKey = recipientResolution.address
+    ? keyForRecipient(vaultKeys, recipientResolution.address)
+    : null;
+
+  const nativeSymbol = findNetwork(networks, chainId)?.nativeCurrency.symbol ?? 'ETH';
+
+  const feeInputKey = [
+    chainId,
+    targetAddress,
+    transferMessage,
+    transferContentType,
+    transferAttachment ? `${transferAttachment.name}:${transferAttachment.bytes.length}` : '',
+    compressMessage,
+    transferMode,
+    transferValue,
+    useMessenger,
+    messengerAddress,
+  ].join('|');
+
+  const currentFees = (() => {
+    try {
+      return feeSuggestions ? resolveFees(feeSelection, feeSuggestions) : null;
+    } catch {
+      return null;
+    }
+  })();
+
+  const feeSummary = (() => {
+    if (!feeEstimate || !currentFees) return null;
+    try {
+      return summarizeCost(
+        feeEstimate.estimates,
+        currentFees,
+        feeSuggestions?.baseFeePerGas ?? null,
+        feeEstimate.valueWei,
+        parseGasLimitOverride(feeSelection),
+      );
+    } catch {
+      return null;
+    }
+  })();
+
+  const handleRefreshFees = async () => {
+    if (!readProvider) return;
+    setIsLoadingFees(true);
+    try {
+      setFeeSuggestions(await fetchFeeSuggestions(readProvider));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '读取 Gas 价格失败');
+    } finally {
+      setIsLoadingFees(false);
+    }
+  };
+
+  const handleEstimateFees = async () => {
+    if (!readProvider || !messaging) return;
+    setError('');
+    setIsLoadingFees(true);
+    try {
+      const [{ message }, suggestions] = await Promise.all([
+        buildTransferMessage(),
+        fetchFeeSuggestions(readProvider),
+      ]);
+      const estimates = await messaging.estimate(message, address || undefined);
+      setFeeSuggestions(suggestions);
+      setFeeEstimate({ key: feeInputKey, estimates, valueWei: message.value });
+      setStatus(
+        estimates.every((estimate) => estimate.estimated)
+          ? '费用预估完成'
+          : '部分交易 Gas 估算失败，已按 calldata 大小推算上限',
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '预估费用失败');
+    } finally {
+      setIsLoadingFees(false);
+    }
+  };
+
+  // 按费用面板的设置得到 Gas 参数，加密消息与代币转账共用
+  const resolveFeeSettings = async (activeProvider: AbstractProvider) => {
+    const suggestions = await fetchFeeSuggestions(activeProvider);
+    setFeeSuggestions(suggestions);
+    return {
+      fees: resolveFees(feeSelection, suggestions),
+      gasLimitOverride: parseGasLimitOverride(feeSelection),
+    };
+  };
+
+  const reportSendError = (err: unknown, fallback: string) => {
+    if (isUserRejection(err)) {
+      setStatus('用户已取消交易签名');
+      setError('');
+    } else {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
   const handleSendEncrypted = async () => {
-    if (!provider) {
+    if (!signerSource || !readProvider || !messaging) {
       setStatus('请先连接钱包');
       return;
     }
     setError('');
-    setTxHash('');
-    setIsSending(true);
     try {
-      const to = getAddress(targetAddress.trim());
-      const signer = await provider.getSigner();
-      const data = encryptTextToHex(transferMessage, cipherKey);
-      const value = transferValue.trim() ? parseEther(transferValue) : 0n;
-      const txRequest = {
-        to,
-        value,
-        data,
-      };
-
-      let gasLimit: bigint | undefined;
-      try {
-        const estimated = await provider.estimateGas(txRequest);
-        gasLimit = (estimated * 12n) / 10n; // add 20% buffer
-        setStatus(`已估算 Gas: ${gasLimit.toString()}`);
-      } catch {
-        gasLimit = 80000n;
-        setStatus('Gas 估算失败，使用默认 80000');
-      }
+      const message = await sender.send({
+        prepare: async () => {
+          const signer = await signerSource.getSigner(address || undefined);
+          const { message, vaultKey } = await buildTransferMessage();
+          if (vaultKey) {
+            setStatus(`使用保险库密钥「${vaultKey.label}」加密`);
+          }
+          return { message, signer, ...(await resolveFeeSettings(readProvider)) };
+        },
+        onStatus: setStatus,
+        onSent: (tx, activeChainId, index, total) => {
+          const label = transferAttachment ? `[文件] ${transferAttachment.name}` : transferMessage;
+          const preview = total > 1 ? `[${index + 1}/${total}] ${label}` : label;
+          setTxHistory(upsertTxRecord(recordFromResponse(tx, activeChainId, preview)));
+          void trackTx(tx, activeChainId);
+        },
+      });
+      setLastMessage({ to: message.to, payloadHash: hashMessagePayload(message.frames) });
+    } catch (err) {
+      reportSendError(err, '发送交易失败');
+    }
+  };
+
+  // 代币转账与合约控制台的写调用：同样的费用设置，同样记入交易记录
+  const handleContractTransaction = async (
+    request: TransactionRequest & { data: string },
+    preview: string,
+  ): Promise<Nullable<TransactionResponse>> => {
+    if (!signerSource || !readProvider) {
+      setStatus('请先连接钱包');
+      return null;
+    }
+    try {
+      const signer = await signerSource.getSigner(address || undefined);
+      const activeChainId = Number((await readProvider.getNetwork()).chainId);
+      const { fees, gasLimitOverride } = await resolveFeeSettings(readProvider);
+      const gasLimit =
+        gasLimitOverride ??
+        (await estimateGasLimit(readProvider, { ...request, from: signer.address }, 0, true)).gasLimit;
+      const tx = await signer.sendTransaction({ ...request, gasLimit, ...fees });
+      setTxHistory(upsertTxRecord(recordFromResponse(tx, activeChainId, preview)));
+      setStatus(`${preview} 已发送，可在交易记录中查看确认状态`);
+      void trackTx(tx, activeChainId);
+      return tx;
+    } catch (err) {
+      reportSendError(err, '发送交易失败');
+      return null;
+    }
+  };
 
-      const tx = await signer.sendTransaction({ ...txRequest, gasLimit });
+  const handleBatchSent = (tx: TransactionResponse, recordChainId: number, preview: string) => {
+    setTxHistory(upsertTxRecord(recordFromResponse(tx, recordChainId, preview)));
+    void trackTx(tx, recordChainId);
+  };
 
-      setStatus('交易已发送，等待确认...');
+  // 后台等待确认，不阻塞页面；回滚或被替换时交给 txStore 重新判定最终状态
+  const trackTx = async (tx: TransactionResponse, recordChainId: number) => {
+    try {
       const receipt = await tx.wait();
-      setTxHash(receipt.hash);
-      setStatus(`已上链，区块 ${receipt.blockNumber}`);
-      await refreshBalance();
+      if (receipt) {
+        setTxHistory(updateTxRecord(recordChainId, tx.hash, receiptPatch(receipt)));
+        setStatus(`交易已上链，区块 ${receipt.blockNumber}`);
+        void session?.refresh().catch(() => undefined);
+      }
     } catch (err) {
-      const errorCode = (err as { code?: number | string }).code;
-      if (errorCode === 4001 || errorCode === 'ACTION_REJECTED') {
-        setStatus('用户已取消交易签名');
-        setError('');
-      } else {
-        setError(err instanceof Error ? err.message : '发送交易失败');
+      if (isError(err, 'TRANSACTION_REPLACED')) {
+        setTxHistory(
+          applyReplacement(recordChainId, tx.hash, err.replacement, err.receipt, err.reason),
+        );
+        setStatus(
+          err.reason === 'cancelled'
+            ? `交易已取消，替代交易 ${err.replacement.hash}`
+            : `交易已被 ${err.replacement.hash} 替换上链`,
+        );
+        return;
+      }
+      const receipt = (err as { receipt?: TransactionReceipt }).receipt;
+      if (receipt) {
+        setTxHistory(updateTxRecord(recordChainId, tx.hash, receiptPatch(receipt)));
+      } else if (readProvider) {
+        setTxHistory(await refreshPendingTxs(readProvider, recordChainId));
       }
+    }
+  };
+
+  const handleReplaceTx = async (record: TxRecord, action: ReplacementAction) => {
+    if (!signerSource) {
+      setStatus('请先连接钱包');
+      return;
+    }
+    setError('');
+    setReplacingHash(record.hash);
+    try {
+      const signer = await signerSource.getSigner(address || undefined);
+      const tx = await sendReplacement(signer, record, action);
+      const label = action === 'cancel' ? '[取消]' : '[加速]';
+      setTxHistory(
+        upsertTxRecord({
+          ...recordFromResponse(tx, record.chainId, `${label} ${record.preview}`),
+          action,
+          replaces: record.hash,
+        }),
+      );
+      setStatus(`${label} 替换交易已发送 ${tx.hash}，等待上链`);
+      void trackTx(tx, record.chainId);
+    } catch (err) {
+      reportSendError(err, '发送替换交易失败');
     } finally {
-      setIsSending(false);
+      setReplacingHash('');
     }
   };
 
-  const handleFetchTx = async () => {
-    if (!provider) {
+  const handleDeployMessenger = async () => {
+    if (!signerSource || !chainId) {
+      setStatus('请先连接钱包');
+      return;
+    }
+    setError('');
+    setIsDeployingMessenger(true);
+    try {
+      const signer = await signerSource.getSigner(address || undefined);
+      setStatus('正在部署 Messenger 合约...');
+      const deployed = await deployMessenger(signer);
+      saveMessengerAddress(chainId, deployed);
+      setMessengerAddress(deployed);
+      setUseMessenger(true);
+      setStatus(`Messenger 合约已部署：${deployed}`);
+    } catch (err) {
+      reportSendError(err, '部署合约失败');
+    } finally {
+      setIsDeployingMessenger(false);
+    }
+  };
+
+  const handleRecoverPublicKey = async () => {
+    if (!readProvider) {
       setStatus('请先连接钱包');
       return;
     }
-    const hash = lookupHash.trim() || txHash;
-    if (!hash) {
-      setError('请输入交易哈希');
+    if (!publicKeyTxHash.trim()) {
+      setError('请输入接收方签名过的交易哈希');
       return;
     }
     setError('');
-    setStatus('');
-    setIsFetchingTx(true);
-    setTxInfo(null);
-    setTxDecrypted('');
+    setIsRecoveringKey(true);
     try {
-      const tx = await provider.getTransaction(hash);
-      if (!tx) {
-        throw new Error('未找到交易');
-      }
-      const receipt = await provider.getTransactionReceipt(hash);
-      const blockNumber = receipt?.blockNumber ?? tx.blockNumber ?? null;
-      const statusCode = receipt?.status ?? null;
-      const valueEth = formatEther(tx.value);
-      const data = tx.data || '0x';
-      setTxInfo({
-        hash: tx.hash,
-        from: tx.from,
-        to: tx.to,
-        valueEth,
-        data,
-        blockNumber,
-        status: statusCode,
-      });
-      if (data && data !== '0x') {
-        try {
-          const decrypted = decryptHexToText(data, cipherKey);
-          setTxDecrypted(decrypted);
-        } catch {
-          setTxDecrypted('无法用当前密钥解密');
-        }
-      }
-      setStatus('交易数据已获取');
+      const recovered = await recoverPublicKeyFromTx(
+        readProvider,
+        publicKeyTxHash,
+        await resolveRecipient(readProvider, chainId, targetAddress),
+      );
+      setRecipientPublicKey(recovered.publicKey);
+      setStatus(`已从交易恢复 ${formatAddress(recovered.address)} 的公钥`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : '查询交易失败');
+      setError(err instanceof Error ? err.message : '恢复公钥失败');
     } finally {
-      setIsFetchingTx(false);
+      setIsRecoveringKey(false);
     }
   };
 
-  const handleEncrypt = () => {
+  const handleEncrypt = async () => {
     setError('');
     try {
-      const cipher = encryptTextToHex(textToEncrypt, cipherKey);
+      const cipher = await encryptText(textToEncrypt, cipherKey, cipherMode);
       setEncryptedHex(cipher);
       setHexToDecrypt(cipher);
       setStatus('文本已加密');
@@ -339,10 +808,10 @@ function App() {
     }
   };
 
-  const handleDecrypt = () => {
+  const handleDecrypt = async () => {
     setError('');
     try {
-      const plain = decryptHexToText(hexToDecrypt, cipherKey);
+      const plain = await decryptText(hexToDecrypt, cipherKey);
       setDecryptedText(plain);
       setStatus('文本已解密');
     } catch (err) {
@@ -352,9 +821,9 @@ function App() {
 
   const chainLabel = useMemo(() => {
     if (!chainId) return '未连接';
-    const target = SUPPORTED_NETWORKS.find((n) => n.chainId === chainId);
+    const target = findNetwork(networks, chainId);
     return target ? target.name : `链 ID: ${chainId}`;
-  }, [chainId]);
+  }, [chainId, networks]);
 
   return (
     <div className="page">
@@ -367,9 +836,17 @@ function App() {
           </p>
           <div className="hero-actions">
             <button className="primary" onClick={connectWallet} disabled={isConnecting}>
-              {isConnecting ? '连接中...' : address ? '重新连接' : '连接 MetaMask'}
+              {isConnecting
+                ? '连接中...'
+                : address
+                  ? '重新连接'
+                  : `连接 ${signerName}`}
             </button>
-            <button className="ghost" onClick={() => readChainData()} disabled={!provider || isReading}>
+            <button
+              className="ghost"
+              onClick={() => readChainData()}
+              disabled={!readProvider || isReading}
+            >
               {isReading ? '读取中...' : '刷新链上数据'}
             </button>
           </div>
@@ -388,27 +865,86 @@ function App() {
           <div className="card-header">
             <div>
               <p className="eyebrow">钱包</p>
-              <h2>MetaMask 连接</h2>
+              <h2>{signerName} 连接</h2>
             </div>
-            <span className="badge">{address ? '已连接' : '未连接'}</span>
+            <span className="badge">
+              {address ? '已连接' : readOnlyProvider ? '只读模式' : '未连接'}
+            </span>
           </div>
           <div className="wallet">
+            <WalletPicker
+              wallets={wallets}
+              selectedUuid={wallet?.info.uuid ?? null}
+              onSelectWallet={handleSelectWallet}
+              accounts={accounts}
+              balances={accountBalances}
+              address={address}
+              onSelectAccount={setAddress}
+              symbol={nativeSymbol}
+            />
             {address ? (
               <>
-                <p className="label">地址</p>
-                <div className="address">{formatAddress(address)}</div>
-            <div className="balance-row">
-              <div>
-                <p className="label">余额 (ETH)</p>
-                <h3>{balance ?? '...'}</h3>
-              </div>
-              <button className="secondary" onClick={() => refreshBalance()}>
-                刷新余额
-              </button>
-            </div>
+                <EnsAddress
+                  provider={readProvider}
+                  chainId={chainId}
+                  address={address}
+                  label="地址"
+                  short
+                />
+                <div className="balance-row">
+                  <div>
+                    <p className="label">余额 (ETH)</p>
+                    <h3>{balance ?? '...'}</h3>
+                  </div>
+                  <span className="badge">{watchSource ? '随新区块更新' : '同步中'}</span>
+                </div>
+                {incomingTxs.length > 0 && (
+                  <div className="result">
+                    <p className="label">最近收到的交易</p>
+                    <ul className="inbox-list">
+                      {incomingTxs.map((tx) => (
+                        <li key={tx.hash} className="inbox-meta">
+                          <span>区块 {tx.blockNumber}</span>
+                          <span>来自 {formatAddress(tx.from)}</span>
+                          <span>{formatEther(tx.valueWei)} {nativeSymbol}</span>
+                          {tx.hasData && <span>带 data</span>}
+                          <button className="ghost" onClick={() => setLookupHash(tx.hash)}>
+                            查询
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </>
             ) : (
-              <p className="muted">点击“连接 MetaMask”获取钱包信息。</p>
+              <p className="muted">
+                {readOnlyProvider
+                  ? '未检测到钱包，可在下方查询任意地址余额。'
+                  : '点击“连接”获取钱包信息。'}
+              </p>
+            )}
+            <div className="field">
+              <label htmlFor="balanceLookup">查询任意地址余额</label>
+              <input
+                id="balanceLookup"
+                value={balanceLookup}
+                onChange={(e) => setBalanceLookup(e.target.value)}
+                placeholder="输入 0x 开头地址"
+              />
+            </div>
+            <button
+              className="secondary wide"
+              onClick={handleLookupBalance}
+              disabled={!readProvider || !balanceLookup.trim()}
+            >
+              查询余额
+            </button>
+            {lookupBalance !== null && (
+              <div className="result">
+                <p className="label">余额 (ETH)</p>
+                <code>{lookupBalance}</code>
+              </div>
             )}
           </div>
         </section>
@@ -429,15 +965,23 @@ function App() {
               <p className="label">最新区块</p>
               <strong>{latestBlock ?? '未读取'}</strong>
             </div>
-            <button
-              className="secondary wide"
-              onClick={() => readChainData()}
-              disabled={!provider || isReading}
-            >
-              {isReading ? '读取中...' : '读取区块号'}
-            </button>
+            <div className="stat">
+              <p className="label">Base Fee</p>
+              <strong>{baseFee === null ? '—' : `${formatUnits(baseFee, 'gwei')} gwei`}</strong>
+            </div>
+            <p className="muted small">
+              {watchSource === 'subscription'
+                ? '已订阅新区块事件（provider.on("block")），区块、Base Fee 与余额自动更新。'
+                : watchSource === 'polling'
+                  ? '区块事件暂不可用，已退回定时轮询。'
+                  : '正在建立区块订阅...'}
+            </p>
             <p className="muted small">
-              使用 ethers 的 BrowserProvider 直接从 MetaMask 读取链上数据。
+              {usingLocalWallet
+                ? '本地钱包模式：通过网络注册表中的 RPC（JsonRpcProvider）读取链上数据并广播签名交易。'
+                : provider
+                ? '使用 ethers 的 BrowserProvider 直接从 MetaMask 读取链上数据。'
+                : '未检测到钱包，使用网络注册表中的 RPC（JsonRpcProvider / FallbackProvider）只读访问。'}
             </p>
             <div className="field">
               <label htmlFor="network">切换网络</label>
@@ -446,7 +990,7 @@ function App() {
                 value={targetChain}
                 onChange={(e) => setTargetChain(Number(e.target.value))}
               >
-                {SUPPORTED_NETWORKS.map((net) => (
+                {networks.map((net) => (
                   <option key={net.chainId} value={net.chainId}>
                     {net.name} ({net.chainId})
                   </option>
@@ -456,14 +1000,44 @@ function App() {
             <button
               className="primary wide"
               onClick={handleSwitchNetwork}
-              disabled={!provider || isSwitching}
+              disabled={!readProvider || isSwitching}
             >
               {isSwitching ? '切换中...' : '切换/添加网络'}
             </button>
-            <p className="muted small">MetaMask 会弹出确认，支持主网和 Sepolia。</p>
+            <p className="muted small">
+              MetaMask 会弹出确认；钱包中不存在的网络会按注册表配置自动添加。
+            </p>
           </div>
         </section>
 
+        <NetworkRegistryCard
+          networks={networks}
+          onChange={setNetworks}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <DevChainCard
+          defaultRpcUrl={findNetwork(networks, LOCAL_CHAIN_ID)?.rpcUrls[0] ?? 'http://127.0.0.1:8545'}
+          node={devNode}
+          onNodeChange={setDevNode}
+          useDevAccounts={useDevAccounts}
+          onUseDevAccountsChange={setUseDevAccounts}
+          address={address}
+          onRefresh={() => void session?.refresh().catch(() => undefined)}
+          onReset={() => void session?.resync().catch(() => undefined)}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <LocalWalletCard
+          wallet={localWallet}
+          onWalletChange={handleLocalWalletChange}
+          networkLabel={chainLabel}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
         <section className="card">
           <div className="card-header">
             <div>
@@ -479,27 +1053,125 @@ function App() {
                 id="transferTo"
                 value={targetAddress}
                 onChange={(e) => setTargetAddress(e.target.value)}
-                placeholder="输入 0x 开头地址"
+                placeholder={supportsEns(chainId) ? '0x 开头地址或 ENS 名称' : '输入 0x 开头地址'}
               />
             </div>
-            <div className="field">
-              <label htmlFor="transferMessage">加密文本</label>
-              <textarea
-                id="transferMessage"
-                value={transferMessage}
-                onChange={(e) => setTransferMessage(e.target.value)}
-                placeholder="写点什么，链上通过 data 发送"
+            {recipientResolution.error ? (
+              <p className="muted small">{recipientResolution.error}</p>
+            ) : (
+              recipientResolution.address &&
+              recipientResolution.address !== ZeroAddress && (
+                <EnsAddress
+                  provider={readProvider}
+                  chainId={chainId}
+                  address={recipientResolution.address}
+                  label={recipientResolution.viaEns ? `${targetAddress.trim()} 解析为` : undefined}
+                />
+              )
+            )}
+            {transferMode !== 'ecies' && recipientVaultKey && (
+              <p className="muted small">将使用保险库密钥「{recipientVaultKey.label}」加密</p>
+            )}
+            {!transferAttachment && (
+              <>
+                <div className="field">
+                  <label htmlFor="transferMessage">加密文本</label>
+                  <textarea
+                    id="transferMessage"
+                    value={transferMessage}
+                    onChange={(e) => setTransferMessage(e.target.value)}
+                    placeholder="写点什么，链上通过 data 发送"
+                  />
+                </div>
+                <div className="field">
+                  <label htmlFor="transferContentType">内容类型</label>
+                  <select
+                    id="transferContentType"
+                    value={transferContentType}
+                    onChange={(e) => setTransferContentType(e.target.value as ContentType)}
+                  >
+                    <option value="text">{CONTENT_TYPE_LABELS.text}</option>
+                    <option value="json">{CONTENT_TYPE_LABELS.json}</option>
+                  </select>
+                </div>
+              </>
+            )}
+            {transferMode === 'xor' ? (
+              <p className="muted small">异或模式没有完整性校验，无法发送附件，请改用 AES-GCM 或 ECIES。</p>
+            ) : (
+              <AttachmentPicker
+                attachment={transferAttachment}
+                onChange={setTransferAttachment}
+                baseFee={baseFee}
+                nativeSymbol={nativeSymbol}
+                onError={setError}
               />
-            </div>
-            <div className="field">
-              <label htmlFor="transferKey">密钥（同上）</label>
+            )}
+            <label className="checkbox">
               <input
-                id="transferKey"
-                value={cipherKey}
-                onChange={(e) => setCipherKey(e.target.value)}
-                placeholder="输入密钥"
+                type="checkbox"
+                checked={compressMessage}
+                onChange={(e) => setCompressMessage(e.target.checked)}
               />
+              加密前压缩（压缩后更大时自动跳过）
+            </label>
+            <div className="field">
+              <label htmlFor="transferMode">加密方式</label>
+              <select
+                id="transferMode"
+                value={transferMode}
+                onChange={(e) => {
+                  const mode = e.target.value as TransferMode;
+                  setTransferMode(mode);
+                  if (mode === 'xor') setTransferAttachment(null);
+                }}
+              >
+                {TRANSFER_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
             </div>
+            {transferMode === 'ecies' ? (
+              <>
+                <div className="field">
+                  <label htmlFor="publicKeyTxHash">接收方签名过的交易哈希</label>
+                  <input
+                    id="publicKeyTxHash"
+                    value={publicKeyTxHash}
+                    onChange={(e) => setPublicKeyTxHash(e.target.value)}
+                    placeholder="用于恢复接收方 secp256k1 公钥"
+                  />
+                </div>
+                <button
+                  className="secondary wide"
+                  onClick={handleRecoverPublicKey}
+                  disabled={!readProvider || isRecoveringKey}
+                >
+                  {isRecoveringKey ? '恢复中...' : '从交易恢复公钥'}
+                </button>
+                <div className="field">
+                  <label htmlFor="recipientPublicKey">接收方公钥</label>
+                  <input
+                    id="recipientPublicKey"
+                    value={recipientPublicKey}
+                    onChange={(e) => setRecipientPublicKey(e.target.value)}
+                    placeholder="0x02... / 0x03... / 0x04..."
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="field">
+                <label htmlFor="transferKey">密钥（同上）</label>
+                <input
+                  id="transferKey"
+                  value={cipherKey}
+                  onChange={(e) => setCipherKey(e.target.value)}
+                  placeholder="输入密钥"
+                />
+              </div>
+            )}
             <div className="field">
               <label htmlFor="transferValue">发送 ETH 数量（可为 0）</label>
               <input
@@ -512,75 +1184,169 @@ function App() {
                 placeholder="0"
               />
             </div>
+            <label className="checkbox">
+              <input
+                type="checkbox"
+                checked={useMessenger}
+                onChange={(e) => setUseMessenger(e.target.checked)}
+              />
+              通过 Messenger 合约发送（postMessage 事件）
+            </label>
+            {useMessenger && (
+              <>
+                <div className="field">
+                  <label htmlFor="messengerAddress">Messenger 合约地址</label>
+                  <input
+                    id="messengerAddress"
+                    value={messengerAddress}
+                    onChange={(e) => setMessengerAddress(e.target.value)}
+                    placeholder="当前网络上已部署的 Messenger 合约"
+                  />
+                </div>
+                <button
+                  className="secondary wide"
+                  onClick={handleDeployMessenger}
+                  disabled={!signerSource || isDeployingMessenger}
+                >
+                  {isDeployingMessenger ? '部署中...' : '部署新的 Messenger 合约'}
+                </button>
+              </>
+            )}
+            <FeePanel
+              suggestions={feeSuggestions}
+              selection={feeSelection}
+              onSelectionChange={setFeeSelection}
+              fees={currentFees}
+              summary={feeSummary}
+              isStale={!!feeEstimate && feeEstimate.key !== feeInputKey}
+              symbol={nativeSymbol}
+              isLoading={isLoadingFees}
+              canEstimate={!!readProvider}
+              onRefresh={handleRefreshFees}
+              onEstimate={handleEstimateFees}
+            />
             <button
               className="primary wide"
               onClick={handleSendEncrypted}
-              disabled={!provider || isSending}
+              disabled={!signerSource || sender.isSending}
             >
-              {isSending ? '发送中...' : '加密并发送交易'}
+              {sender.isSending ? '发送中...' : '加密并发送交易'}
             </button>
             <p className="muted small">
-              交易会把加密文本放入 data 字段，收款地址由上方输入框决定，需消耗 Gas。
+              交易会把带消息帧头的密文放入 data 字段，收款地址由上方输入框决定，需消耗 Gas。
+              密文超过 {DEFAULT_CHUNK_SIZE / 1024}KB 时会拆分为多笔交易依次发送。
             </p>
             <div className="result">
-              <p className="label">最新交易哈希</p>
-              <code>{txHash || '—'}</code>
+              <p className="label">最新交易哈希（确认状态见交易记录）</p>
+              <code>{sender.hashes.join('\n') || '—'}</code>
             </div>
           </div>
         </section>
 
-        <section className="card">
-          <div className="card-header">
-            <div>
-              <p className="eyebrow">链上数据</p>
-              <h2>根据哈希查询交易</h2>
-            </div>
-            <span className="badge">读取链上</span>
-          </div>
-          <div className="cipher-grid">
-            <div className="field">
-              <label htmlFor="lookupHash">交易哈希</label>
-              <input
-                id="lookupHash"
-                value={lookupHash}
-                onChange={(e) => setLookupHash(e.target.value)}
-                placeholder="0x 开头的交易哈希，默认用上方最新交易"
-              />
-            </div>
-            <button
-              className="primary wide"
-              onClick={handleFetchTx}
-              disabled={!provider || isFetchingTx}
-            >
-              {isFetchingTx ? '读取中...' : '查询交易'}
-            </button>
-            <p className="muted small">使用当前密钥尝试解密 data 字段。</p>
-            <div className="result">
-              <p className="label">查询结果</p>
-              <code>
-                {txInfo
-                  ? JSON.stringify(
-                      {
-                        hash: txInfo.hash,
-                        from: txInfo.from,
-                        to: txInfo.to,
-                        valueEth: `${txInfo.valueEth} ETH`,
-                        blockNumber: txInfo.blockNumber,
-                        status: txInfo.status,
-                        data: txInfo.data,
-                      },
-                      null,
-                      2
-                    )
-                  : '—'}
-              </code>
-            </div>
-            <div className="result">
-              <p className="label">data 解密尝试</p>
-              <code>{txDecrypted || '—'}</code>
-            </div>
-          </div>
-        </section>
+        <TxLookupCard
+          messaging={messaging}
+          chainId={chainId}
+          hash={lookupHash}
+          onHashChange={setLookupHash}
+          latestHashes={sender.hashes.join('\n')}
+          vaultKeys={vaultKeys}
+          defaultPassphrase={cipherKey}
+          walletPrivateKey={localWallet?.privateKey}
+          symbol={nativeSymbol}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <TokenCard
+          provider={readProvider}
+          chainId={chainId}
+          address={address}
+          canSign={!!signerSource && !!address}
+          onTransfer={handleContractTransaction}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <SignatureCard
+          signerSource={signerSource}
+          address={address}
+          chainId={chainId}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <TypedDataCard
+          signerSource={signerSource}
+          address={address}
+          chainId={chainId}
+          lastMessage={lastMessage}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <BatchSendCard
+          provider={readProvider}
+          signerSource={signerSource}
+          address={address}
+          chainId={chainId}
+          options={{
+            mode: transferMode,
+            passphrase: cipherKey,
+            contentType: transferContentType,
+            compress: compressMessage,
+            messenger: useMessenger ? messengerAddress.trim() : null,
+            keyForRecipient: (recipient) => keyForRecipient(vaultKeys, recipient)?.key,
+          }}
+          resolveFeeSettings={resolveFeeSettings}
+          onSent={handleBatchSent}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <TxHistoryCard
+          provider={readProvider}
+          chainId={chainId}
+          records={txHistory.filter((record) => record.chainId === chainId)}
+          onRecordsChange={setTxHistory}
+          canSign={!!signerSource && !!address}
+          replacingHash={replacingHash}
+          onReplace={handleReplaceTx}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <ContractConsoleCard
+          provider={readProvider}
+          chainId={chainId}
+          address={address}
+          canSign={!!signerSource && !!address}
+          onSendTransaction={handleContractTransaction}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <VaultCard
+          keys={vaultKeys}
+          onKeysChange={setVaultKeys}
+          suggestedContact={recipientResolution.address}
+          onUseKey={(key) => {
+            setCipherKey(key);
+            setStatus('已把保险库口令填入加密口令输入框');
+          }}
+          onStatus={setStatus}
+          onError={setError}
+        />
+
+        <InboxCard
+          provider={readProvider}
+          address={address}
+          chainId={chainId}
+          messengerAddress={messengerAddress}
+          defaultPassphrase={cipherKey}
+          vaultPassphrases={vaultKeys?.map((entry) => entry.key) ?? []}
+          onStatus={setStatus}
+          onError={setError}
+        />
 
         <section className="card span-2">
           <div className="card-header">
@@ -588,7 +1354,7 @@ function App() {
               <p className="eyebrow">16 进制</p>
               <h2>自定义加密 / 解密</h2>
             </div>
-            <span className="badge">对称异或</span>
+            <span className="badge">{cipherMode === 'aes-gcm' ? 'AES-GCM' : '对称异或'}</span>
           </div>
 
           <div className="cipher-grid">
@@ -602,6 +1368,21 @@ function App() {
               />
             </div>
 
+            <div className="field">
+              <label htmlFor="cipherMode">加密方式</label>
+              <select
+                id="cipherMode"
+                value={cipherMode}
+                onChange={(e) => setCipherMode(e.target.value as CipherMode)}
+              >
+                {CIPHER_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="field">
               <label htmlFor="textToEncrypt">待加密文本</label>
               <textarea
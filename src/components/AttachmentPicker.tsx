@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { formatEther } from 'ethers';
+import {
+  ATTACHMENT_WARN_BYTES,
+  Attachment,
+  MAX_ATTACHMENT_BYTES,
+  describeAttachment,
+  estimateAttachmentCost,
+  readFileAttachment,
+} from '../lib/attachments';
+import { formatBytes } from '../lib/format';
+
+type AttachmentPickerProps = {
+  attachment: Attachment | null;
+  onChange: (attachment: Attachment | null) => void;
+  baseFee: bigint | null;
+  nativeSymbol: string;
+  onError: (message: string) => void;
+};
+
+function AttachmentPicker({
+  attachment,
+  onChange,
+  baseFee,
+  nativeSymbol,
+  onError,
+}: AttachmentPickerProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const pick = async (file: File | undefined) => {
+    if (!file) return;
+    onError('');
+    try {
+      onChange(await readFileAttachment(file));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '读取文件失败');
+    }
+  };
+
+  const cost = attachment ? estimateAttachmentCost(attachment.bytes.length) : null;
+
+  return (
+    <div className="field">
+      <label htmlFor="transferAttachment">附件（可选，替代文本发送）</label>
+      <div
+        className={`drop-zone${isDragging ? ' active' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          void pick(e.dataTransfer.files[0]);
+        }}
+      >
+        <input
+          id="transferAttachment"
+          type="file"
+          onChange={(e) => {
+            void pick(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <p className="muted small">
+          拖拽文件到此处或点击选择，上限 {formatBytes(MAX_ATTACHMENT_BYTES)}
+        </p>
+      </div>
+      {attachment && cost && (
+        <div className="result">
+          <div className="balance-row">
+            <span>{describeAttachment(attachment)}</span>
+            <button className="ghost" onClick={() => onChange(null)}>
+              移除
+            </button>
+          </div>
+          <p className="muted small">
+            粗略估算约 {cost.gas.toLocaleString()} gas
+            {baseFee !== null && `，按当前 Base Fee 约 ${formatEther(cost.gas * baseFee)} ${nativeSymbol}`}
+            ；图片、压缩包等已压缩的格式基本无法再压缩。
+          </p>
+          {attachment.bytes.length > ATTACHMENT_WARN_BYTES && (
+            <p className="warning">
+              文件超过 {formatBytes(ATTACHMENT_WARN_BYTES)}，将拆分为约 {cost.frames} 笔交易，需要逐笔签名，
+              接收方需提供全部交易哈希才能解密。
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AttachmentPicker;
@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Attachment, describeAttachment, previewKind } from '../lib/attachments';
+
+type AttachmentPreviewProps = {
+  attachment: Attachment;
+};
+
+const decoder = new TextDecoder();
+
+const prettyJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+function AttachmentPreview({ attachment }: AttachmentPreviewProps) {
+  const [url, setUrl] = useState('');
+  const kind = previewKind(attachment.mimeType);
+
+  useEffect(() => {
+    const next = URL.createObjectURL(
+      new Blob([new Uint8Array(attachment.bytes)], { type: attachment.mimeType }),
+    );
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [attachment]);
+
+  const text = useMemo(() => {
+    if (kind !== 'json' && kind !== 'text') return '';
+    const decoded = decoder.decode(attachment.bytes);
+    return kind === 'json' ? prettyJson(decoded) : decoded;
+  }, [attachment, kind]);
+
+  return (
+    <div className="result attachment-preview">
+      <div className="balance-row">
+        <span className="muted small">{describeAttachment(attachment)}</span>
+        {url && (
+          <a className="ghost" href={url} download={attachment.name || 'attachment'}>
+            下载
+          </a>
+        )}
+      </div>
+      {kind === 'image' && url && <img src={url} alt={attachment.name} />}
+      {text && <pre>{text}</pre>}
+      {kind === 'download' && (
+        <p className="muted small">该类型不支持预览，请下载后用对应程序打开。</p>
+      )}
+    </div>
+  );
+}
+
+export default AttachmentPreview;
@@ -0,0 +1,250 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatEther } from 'ethers';
+import type { AbstractProvider, TransactionResponse } from 'ethers';
+import {
+  BatchJob,
+  BatchOptions,
+  BatchRowStatus,
+  clearBatchJob,
+  loadBatchJob,
+  parseBatchInput,
+  prepareBatch,
+  runBatch,
+  saveBatchJob,
+  summarizeBatch,
+} from '../lib/batch';
+import type { TxFees } from '../lib/fees';
+import type { SignerSource } from '../lib/localWallet';
+import { formatAddress } from '../lib/format';
+
+type BatchSendCardProps = {
+  provider: AbstractProvider | null;
+  signerSource: SignerSource | null;
+  address: string;
+  chainId: number | null;
+  options: Omit<BatchOptions, 'chainId' | 'from'>;
+  resolveFeeSettings: (
+    provider: AbstractProvider,
+  ) => Promise<{ fees: TxFees; gasLimitOverride: bigint | null }>;
+  onSent: (tx: TransactionResponse, chainId: number, preview: string) => void;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+const STATUS_LABELS: Record<BatchRowStatus, string> = {
+  invalid: '校验失败',
+  pending: '待发送',
+  sending: '发送中',
+  sent: '已发送',
+  failed: '发送失败',
+  unknown: '待核实',
+};
+
+const STATUS_CLASSES: Record<BatchRowStatus, string> = {
+  invalid: 'failed',
+  pending: 'pending',
+  sending: 'pending',
+  sent: 'confirmed',
+  failed: 'failed',
+  unknown: 'pending',
+};
+
+const KEY_LABELS = {
+  default: '表单口令',
+  contact: '联系人口令',
+  passphrase: '独立口令',
+  'public-key': '接收方公钥',
+};
+
+const SAMPLE = 'to,message,value,key\n0x0000000000000000000000000000000000000001,"Hello, Alice",0,';
+
+function BatchSendCard({
+  provider,
+  signerSource,
+  address,
+  chainId,
+  options,
+  resolveFeeSettings,
+  onSent,
+  onStatus,
+  onError,
+}: BatchSendCardProps) {
+  const [input, setInput] = useState('');
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const stopRef = useRef(false);
+
+  useEffect(() => {
+    setJob(chainId ? loadBatchJob(chainId) : null);
+  }, [chainId]);
+
+  const summary = job ? summarizeBatch(job) : null;
+  const started = !!job?.rows.some((row) => row.hashes.length > 0 || row.status === 'failed');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setInput(await file.text());
+    onStatus(`已读取 ${file.name}`);
+  };
+
+  const handlePrepare = async () => {
+    if (!chainId || !address) return;
+    onError('');
+    setIsPreparing(true);
+    try {
+      const next = await prepareBatch(parseBatchInput(input), { ...options, chainId, from: address });
+      saveBatchJob(next);
+      setJob(next);
+      const { invalid, total, transactions } = summarizeBatch(next);
+      onStatus(
+        invalid > 0
+          ? `${invalid} / ${total} 行未通过校验，请修正后重新生成`
+          : `${total} 行全部通过校验并已加密，共 ${transactions} 笔交易`,
+      );
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '生成批次失败');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!provider || !signerSource || !job) return;
+    onError('');
+    stopRef.current = false;
+    setIsRunning(true);
+    try {
+      const signer = await signerSource.getSigner(job.from);
+      const { fees, gasLimitOverride } = await resolveFeeSettings(provider);
+      const result = await runBatch(job, {
+        signer,
+        provider,
+        fees,
+        gasLimitOverride,
+        shouldStop: () => stopRef.current,
+        onUpdate: setJob,
+        onSent: (tx, row, frameIndex) => {
+          const label = row.frames.length > 1 ? `[${frameIndex + 1}/${row.frames.length}] ` : '';
+          onSent(tx, job.chainId, `[批量 #${row.line}] ${label}${row.preview}`);
+        },
+      });
+      const { sent, total, failed, unknown, remaining } = summarizeBatch(result);
+      const unknownNote = unknown > 0 ? `，${unknown} 行待核实` : '';
+      onStatus(
+        sent === total
+          ? `批次已全部发送（${total} 行）`
+          : remaining === 0
+            ? `批次已处理完：已发送 ${sent} / ${total} 行${unknownNote}`
+            : `批次已暂停：已发送 ${sent} / ${total} 行${failed > 0 ? `，失败 ${failed} 行` : ''}${unknownNote}，可继续发送`,
+      );
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '批量发送失败');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (!job) return;
+    clearBatchJob(job.chainId);
+    setJob(null);
+    onStatus('已清除批次');
+  };
+
+  return (
+    <section className="card span-2">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">批量</p>
+          <h2>批量发送加密消息</h2>
+        </div>
+        <span className="badge">
+          {summary ? `${summary.sent} / ${summary.total} 已发送` : '未创建批次'}
+        </span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="batchInput">收件人列表（CSV 或 JSON）</label>
+          <textarea
+            id="batchInput"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={SAMPLE}
+          />
+        </div>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => void handleFile(e.target.files?.[0])}
+        />
+        <p className="muted small">
+          列：to、message、value（ETH，可空）、key（可空）。key 为空时优先使用保险库中与收件地址
+          绑定的口令，其次是上方加密口令与加密方式；填写口令则该行单独用此口令加密，填写公钥则改用
+          ECIES。校验时即完成加密，任务只保存密文。
+        </p>
+        <button
+          className="secondary wide"
+          onClick={handlePrepare}
+          disabled={!chainId || !address || !input.trim() || isPreparing || isRunning}
+        >
+          {isPreparing ? '校验中...' : '校验并生成批次'}
+        </button>
+        {job && summary && (
+          <>
+            <p className="muted small">
+              发送账户 {formatAddress(job.from)} · {summary.total} 行 · {summary.transactions} 笔交易 ·
+              合计 {summary.totalValue} ETH{job.messenger ? ` · 通过 Messenger ${formatAddress(job.messenger)}` : ''}
+            </p>
+            <div className="hero-actions">
+              <button
+                className="primary"
+                onClick={handleRun}
+                disabled={
+                  !signerSource || isRunning || summary.invalid > 0 || summary.remaining === 0
+                }
+              >
+                {isRunning ? '发送中...' : started ? '继续发送' : '开始发送'}
+              </button>
+              <button
+                className="ghost"
+                onClick={() => {
+                  stopRef.current = true;
+                }}
+                disabled={!isRunning}
+              >
+                发送完当前交易后停止
+              </button>
+              <button className="ghost" onClick={handleClear} disabled={isRunning}>
+                清除批次
+              </button>
+            </div>
+            <ul className="inbox-list">
+              {job.rows.map((row) => (
+                <li key={row.line} className="inbox-item">
+                  <div className="inbox-meta">
+                    <span>#{row.line}</span>
+                    <span>{row.to.startsWith('0x') ? formatAddress(row.to) : row.to || '—'}</span>
+                    <span>{formatEther(row.valueWei)} ETH</span>
+                    <span>{KEY_LABELS[row.keyKind]}</span>
+                    {row.frames.length > 1 && <span>{row.frames.length} 段</span>}
+                    <span className={`tx-status ${STATUS_CLASSES[row.status]}`}>
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                  </div>
+                  <p className="muted small">{row.preview}</p>
+                  {row.hashes.map((hash, index) => (
+                    <code key={index}>{hash}</code>
+                  ))}
+                  {row.error && <p className="muted small">{row.error}</p>}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default BatchSendCard;
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from 'react';
+import { parseEther } from 'ethers';
+import type {
+  AbstractProvider,
+  FunctionFragment,
+  Interface,
+  TransactionRequest,
+  TransactionResponse,
+} from 'ethers';
+import {
+  SavedContract,
+  buildWriteRequest,
+  callReadFunction,
+  decodeEvents,
+  formatResult,
+  listFunctions,
+  loadSavedContracts,
+  paramPlaceholder,
+  parseAbi,
+  parseArguments,
+  removeSavedContract,
+  saveContract,
+} from '../lib/contracts';
+import { formatAddress } from '../lib/format';
+
+type ContractConsoleCardProps = {
+  provider: AbstractProvider | null;
+  chainId: number | null;
+  address: string;
+  canSign: boolean;
+  onSendTransaction: (
+    request: TransactionRequest & { data: string },
+    preview: string,
+  ) => Promise<TransactionResponse | null>;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function ContractConsoleCard({
+  provider,
+  chainId,
+  address,
+  canSign,
+  onSendTransaction,
+  onStatus,
+  onError,
+}: ContractConsoleCardProps) {
+  const [saved, setSaved] = useState<SavedContract[]>([]);
+  const [contractAddress, setContractAddress] = useState('');
+  const [contractName, setContractName] = useState('');
+  const [abiText, setAbiText] = useState('');
+  const [iface, setIface] = useState<Interface | null>(null);
+  const [inputs, setInputs] = useState<Record<string, string[]>>({});
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState('');
+
+  useEffect(() => {
+    setSaved(chainId ? loadSavedContracts(chainId) : []);
+  }, [chainId]);
+
+  const functions = useMemo(() => (iface ? listFunctions(iface) : null), [iface]);
+
+  const handleLoad = () => {
+    onError('');
+    try {
+      const next = parseAbi(abiText);
+      setIface(next);
+      setInputs({});
+      setValues({});
+      setResults({});
+      const { read, write } = listFunctions(next);
+      onStatus(`已解析 ABI：${read.length} 个读函数，${write.length} 个写函数`);
+    } catch (err) {
+      setIface(null);
+      onError(err instanceof Error ? err.message : '解析 ABI 失败');
+    }
+  };
+
+  const handleSave = () => {
+    if (!chainId) return;
+    onError('');
+    try {
+      const next = parseAbi(abiText);
+      const list = saveContract({
+        chainId,
+        address: contractAddress.trim(),
+        name: contractName.trim() || formatAddress(contractAddress.trim()),
+        abi: next.formatJson(),
+      });
+      setSaved(list);
+      setIface(next);
+      onStatus('合约已保存到当前网络');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '保存合约失败');
+    }
+  };
+
+  const handleSelectSaved = (item: SavedContract) => {
+    setContractAddress(item.address);
+    setContractName(item.name);
+    setAbiText(JSON.stringify(JSON.parse(item.abi), null, 2));
+    setIface(parseAbi(item.abi));
+    setInputs({});
+    setValues({});
+    setResults({});
+  };
+
+  const handleRemoveSaved = (item: SavedContract) => {
+    setSaved(removeSavedContract(item.chainId, item.address));
+    onStatus(`已删除 ${item.name}`);
+  };
+
+  const updateInput = (key: string, index: number, value: string) =>
+    setInputs((prev) => {
+      const list = [...(prev[key] ?? [])];
+      list[index] = value;
+      return { ...prev, [key]: list };
+    });
+
+  const handleRead = async (fragment: FunctionFragment) => {
+    if (!provider || !iface) return;
+    const key = fragment.format();
+    onError('');
+    setBusy(key);
+    try {
+      const args = parseArguments(fragment, inputs[key] ?? []);
+      const result = await callReadFunction(
+        provider,
+        contractAddress.trim(),
+        iface,
+        fragment,
+        args,
+        address,
+      );
+      setResults((prev) => ({ ...prev, [key]: formatResult(result) }));
+    } catch (err) {
+      setResults((prev) => ({ ...prev, [key]: '' }));
+      onError(err instanceof Error ? err.message : '调用失败');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const handleWrite = async (fragment: FunctionFragment) => {
+    if (!iface) return;
+    const key = fragment.format();
+    onError('');
+    setBusy(key);
+    try {
+      const args = parseArguments(fragment, inputs[key] ?? []);
+      const value = values[key]?.trim() ? parseEther(values[key].trim()) : 0n;
+      const request = buildWriteRequest(contractAddress.trim(), iface, fragment, args, value);
+      const tx = await onSendTransaction(
+        request,
+        `[合约] ${contractName.trim() || formatAddress(contractAddress.trim())}.${fragment.name}`,
+      );
+      if (!tx) return;
+      setResults((prev) => ({ ...prev, [key]: `已发送 ${tx.hash}，等待上链...` }));
+      const receipt = await tx.wait();
+      if (receipt) {
+        const events = decodeEvents(iface, receipt.logs);
+        setResults((prev) => ({
+          ...prev,
+          [key]: `区块 ${receipt.blockNumber}，Gas ${receipt.gasUsed}\n事件：${
+            events.length > 0 ? JSON.stringify(events, null, 2) : '无'
+          }`,
+        }));
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '发送交易失败');
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const renderFunction = (fragment: FunctionFragment, write: boolean) => {
+    const key = fragment.format();
+    return (
+      <li key={key} className="inbox-item">
+        <p className="label">
+          <strong>{fragment.name}</strong>
+          <span className="muted small">
+            {' '}
+            {fragment.stateMutability}
+            {fragment.outputs.length > 0 &&
+              ` → (${fragment.outputs.map((output) => output.format()).join(', ')})`}
+          </span>
+        </p>
+        {fragment.inputs.map((param, index) => (
+          <div className="field" key={`${key}-${index}`}>
+            <label htmlFor={`${key}-${index}`}>
+              {param.name || `参数 ${index + 1}`} ({param.format()})
+            </label>
+            <input
+              id={`${key}-${index}`}
+              value={inputs[key]?.[index] ?? ''}
+              onChange={(e) => updateInput(key, index, e.target.value)}
+              placeholder={paramPlaceholder(param)}
+            />
+          </div>
+        ))}
+        {fragment.payable && (
+          <div className="field">
+            <label htmlFor={`${key}-value`}>附带 ETH</label>
+            <input
+              id={`${key}-value`}
+              value={values[key] ?? ''}
+              onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+              placeholder="0"
+            />
+          </div>
+        )}
+        <button
+          className={write ? 'primary wide' : 'secondary wide'}
+          onClick={() => (write ? handleWrite(fragment) : handleRead(fragment))}
+          disabled={busy === key || !contractAddress.trim() || (write ? !canSign : !provider)}
+        >
+          {busy === key ? '执行中...' : write ? '发送交易' : '调用'}
+        </button>
+        {results[key] && <code>{results[key]}</code>}
+      </li>
+    );
+  };
+
+  return (
+    <section className="card span-2">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">合约</p>
+          <h2>合约交互控制台</h2>
+        </div>
+        <span className="badge">{saved.length} 个已保存</span>
+      </div>
+      <div className="cipher-grid">
+        {saved.length > 0 && (
+          <ul className="inbox-list">
+            {saved.map((item) => (
+              <li key={item.address} className="inbox-item">
+                <div className="balance-row">
+                  <button className="ghost" onClick={() => handleSelectSaved(item)}>
+                    {item.name} · {formatAddress(item.address)}
+                  </button>
+                  <button className="ghost" onClick={() => handleRemoveSaved(item)}>
+                    删除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="field">
+          <label htmlFor="contractAddress">合约地址</label>
+          <input
+            id="contractAddress"
+            value={contractAddress}
+            onChange={(e) => setContractAddress(e.target.value)}
+            placeholder="0x..."
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="contractName">名称（可选）</label>
+          <input
+            id="contractName"
+            value={contractName}
+            onChange={(e) => setContractName(e.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="contractAbi">ABI（JSON 或每行一条 human-readable）</label>
+          <textarea
+            id="contractAbi"
+            value={abiText}
+            onChange={(e) => setAbiText(e.target.value)}
+            placeholder="function balanceOf(address owner) view returns (uint256)"
+          />
+        </div>
+        <div className="hero-actions">
+          <button className="secondary" onClick={handleLoad} disabled={!abiText.trim()}>
+            解析 ABI
+          </button>
+          <button
+            className="secondary"
+            onClick={handleSave}
+            disabled={!chainId || !abiText.trim() || !contractAddress.trim()}
+          >
+            保存到当前网络
+          </button>
+        </div>
+        {functions && (
+          <>
+            <p className="label">读函数（provider.call，不消耗 Gas）</p>
+            <ul className="inbox-list">
+              {functions.read.map((fragment) => renderFunction(fragment, false))}
+            </ul>
+            <p className="label">写函数（钱包签名发送，Gas 设置沿用费用面板）</p>
+            <ul className="inbox-list">
+              {functions.write.map((fragment) => renderFunction(fragment, true))}
+            </ul>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default ContractConsoleCard;
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { formatEther } from 'ethers';
+import {
+  DEFAULT_FUND_ETH,
+  DevNode,
+  DevSnapshot,
+  connectDevNode,
+  fundAccount,
+  listDevAccounts,
+  mineBlocks,
+  revertSnapshot,
+  takeSnapshot,
+} from '../lib/devChain';
+import { formatAddress, formatTimestamp } from '../lib/format';
+
+type DevChainCardProps = {
+  defaultRpcUrl: string;
+  node: DevNode | null;
+  onNodeChange: (node: DevNode | null) => void;
+  useDevAccounts: boolean;
+  onUseDevAccountsChange: (enabled: boolean) => void;
+  address: string;
+  // 余额被直接改写时不会出块，需要主动刷新；回滚后需要重新同步
+  onRefresh: () => void;
+  onReset: () => void;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function DevChainCard({
+  defaultRpcUrl,
+  node,
+  onNodeChange,
+  useDevAccounts,
+  onUseDevAccountsChange,
+  address,
+  onRefresh,
+  onReset,
+  onStatus,
+  onError,
+}: DevChainCardProps) {
+  const [rpcUrl, setRpcUrl] = useState(defaultRpcUrl);
+  const [devAccounts, setDevAccounts] = useState<string[]>([]);
+  const [fundTarget, setFundTarget] = useState('');
+  const [fundAmount, setFundAmount] = useState(DEFAULT_FUND_ETH);
+  const [mineCount, setMineCount] = useState('1');
+  const [snapshots, setSnapshots] = useState<DevSnapshot[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setSnapshots([]);
+    setDevAccounts([]);
+    if (!node) return;
+    listDevAccounts(node.provider)
+      .then(setDevAccounts)
+      .catch(() => undefined);
+  }, [node]);
+
+  const run = async (task: (current: DevNode) => Promise<void>, fallback: string) => {
+    if (!node) return;
+    onError('');
+    setIsBusy(true);
+    try {
+      await task(node);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleConnect = async () => {
+    onError('');
+    setIsBusy(true);
+    try {
+      const next = await connectDevNode(rpcUrl);
+      onNodeChange(next);
+      onStatus(`已连接 ${next.clientVersion}（链 ID ${next.chainId}）`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '连接本地节点失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisconnect = () => {
+    onUseDevAccountsChange(false);
+    onNodeChange(null);
+    onStatus('已断开本地节点');
+  };
+
+  const handleFund = () =>
+    run(async (current) => {
+      const target = fundTarget.trim() || address;
+      if (!target) {
+        throw new Error('请先连接账户或填写充值地址');
+      }
+      const wei = await fundAccount(current, target, fundAmount);
+      onRefresh();
+      onStatus(`已将 ${formatAddress(target)} 的余额设为 ${formatEther(wei)} ETH`);
+    }, '充值失败');
+
+  const handleMine = () =>
+    run(async (current) => {
+      const blocks = Number(mineCount);
+      await mineBlocks(current, blocks);
+      onStatus(`已出 ${blocks} 个区块`);
+    }, '出块失败');
+
+  const handleSnapshot = () =>
+    run(async (current) => {
+      const snapshot = await takeSnapshot(current);
+      setSnapshots((prev) => [...prev, snapshot]);
+      onStatus(`已拍摄快照 ${snapshot.id}（区块 ${snapshot.blockNumber}）`);
+    }, '拍摄快照失败');
+
+  const handleRevert = (snapshot: DevSnapshot) =>
+    run(async (current) => {
+      try {
+        await revertSnapshot(current, snapshot);
+      } finally {
+        setSnapshots((prev) => prev.filter((item) => item.createdAt < snapshot.createdAt));
+      }
+      onReset();
+      onStatus(`已回滚到区块 ${snapshot.blockNumber}，之后的交易与余额变化均已撤销`);
+    }, '回滚失败');
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">本地链</p>
+          <h2>Anvil / Hardhat 开发节点</h2>
+        </div>
+        <span className="badge">{node ? `${node.kind} · 链 ${node.chainId}` : '未连接'}</span>
+      </div>
+      <div className="cipher-grid">
+        {!node ? (
+          <>
+            <div className="field">
+              <label htmlFor="devRpcUrl">节点 RPC</label>
+              <input
+                id="devRpcUrl"
+                value={rpcUrl}
+                onChange={(e) => setRpcUrl(e.target.value)}
+                placeholder="http://127.0.0.1:8545"
+              />
+            </div>
+            <button
+              className="secondary wide"
+              onClick={handleConnect}
+              disabled={!rpcUrl.trim() || isBusy}
+            >
+              {isBusy ? '连接中...' : '连接本地节点'}
+            </button>
+            <p className="muted small">
+              先在本机运行 <code>anvil</code> 或 <code>npx hardhat node</code>。连接后可使用节点自带的已解锁账户签名，
+              不需要浏览器钱包，也不消耗测试网 ETH。
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="muted small">
+              {node.clientVersion} · {node.rpcUrl} · {devAccounts.length} 个已解锁账户
+            </p>
+            <div className="hero-actions">
+              <button
+                className={useDevAccounts ? 'secondary' : 'primary'}
+                onClick={() => onUseDevAccountsChange(!useDevAccounts)}
+                disabled={devAccounts.length === 0}
+              >
+                {useDevAccounts ? '切回浏览器钱包' : '使用开发账户签名'}
+              </button>
+              <button className="ghost" onClick={handleDisconnect} disabled={isBusy}>
+                断开
+              </button>
+            </div>
+            <div className="field">
+              <label htmlFor="devFundTarget">充值地址（留空为当前账户）</label>
+              <input
+                id="devFundTarget"
+                value={fundTarget}
+                onChange={(e) => setFundTarget(e.target.value)}
+                placeholder={address || '0x...'}
+              />
+            </div>
+            <div className="hero-actions">
+              <input
+                id="devFundAmount"
+                value={fundAmount}
+                onChange={(e) => setFundAmount(e.target.value)}
+                aria-label="充值金额 (ETH)"
+              />
+              <button className="secondary" onClick={handleFund} disabled={isBusy}>
+                设置余额 (ETH)
+              </button>
+            </div>
+            <div className="hero-actions">
+              <input
+                id="devMineCount"
+                type="number"
+                min="1"
+                value={mineCount}
+                onChange={(e) => setMineCount(e.target.value)}
+                aria-label="出块数量"
+              />
+              <button className="secondary" onClick={handleMine} disabled={isBusy}>
+                出块
+              </button>
+              <button className="ghost" onClick={handleSnapshot} disabled={isBusy}>
+                拍摄快照
+              </button>
+            </div>
+            {snapshots.length > 0 && (
+              <ul className="inbox-list">
+                {snapshots.map((snapshot) => (
+                  <li key={snapshot.id} className="inbox-item">
+                    <div className="balance-row">
+                      <span className="muted small">
+                        快照 {snapshot.id} · 区块 {snapshot.blockNumber} ·{' '}
+                        {formatTimestamp(snapshot.createdAt / 1000)}
+                      </span>
+                      <button
+                        className="ghost"
+                        onClick={() => handleRevert(snapshot)}
+                        disabled={isBusy}
+                      >
+                        回滚
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="muted small">
+              充值通过 {node.kind}_setBalance 直接改写余额，浏览器钱包连接到本地网络时同样适用；回滚后该快照
+              及之后拍摄的快照都会失效。
+            </p>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default DevChainCard;
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import type { AbstractProvider } from 'ethers';
+import { EnsProfile, lookupEnsProfile, supportsEns } from '../lib/ens';
+import { formatAddress } from '../lib/format';
+
+type EnsAddressProps = {
+  provider: AbstractProvider | null;
+  chainId: number | null;
+  address: string | null;
+  label?: string;
+  short?: boolean;
+};
+
+function EnsAddress({ provider, chainId, address, label, short = false }: EnsAddressProps) {
+  const [profile, setProfile] = useState<EnsProfile | null>(null);
+
+  useEffect(() => {
+    setProfile(null);
+    if (!provider || !address || !chainId || !supportsEns(chainId)) return;
+    let cancelled = false;
+    lookupEnsProfile(provider, chainId, address)
+      .then((next) => {
+        if (!cancelled) setProfile(next);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, chainId, address]);
+
+  if (!address) {
+    return null;
+  }
+
+  return (
+    <div className="ens-address">
+      {profile?.avatar && <img className="ens-avatar" src={profile.avatar} alt="" />}
+      <div>
+        {label && <p className="label">{label}</p>}
+        {profile?.name && profile.verified && <strong>{profile.name}</strong>}
+        <div className="address">{short ? formatAddress(address) : address}</div>
+        {profile?.name && !profile.verified && (
+          <p className="tx-status failed">
+            反向记录声明为 {profile.name}，但该名称正向解析为{' '}
+            {profile.forwardAddress ? formatAddress(profile.forwardAddress) : '空'}
+            ，与此地址不一致，请勿信任该名称
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default EnsAddress;
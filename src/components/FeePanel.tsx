@@ -0,0 +1,155 @@
+import { formatEther, formatUnits } from 'ethers';
+import {
+  CostSummary,
+  FeeMode,
+  FeeSelection,
+  FeeSpeed,
+  FeeSuggestions,
+  TxFees,
+} from '../lib/fees';
+
+type FeePanelProps = {
+  suggestions: FeeSuggestions | null;
+  selection: FeeSelection;
+  onSelectionChange: (selection: FeeSelection) => void;
+  fees: TxFees | null;
+  summary: CostSummary | null;
+  isStale: boolean;
+  symbol: string;
+  isLoading: boolean;
+  canEstimate: boolean;
+  onRefresh: () => void;
+  onEstimate: () => void;
+};
+
+const SPEED_LABELS: Record<FeeSpeed, string> = {
+  slow: '慢',
+  normal: '标准',
+  fast: '快',
+};
+
+const formatGwei = (wei: bigint | null | undefined) =>
+  wei === null || wei === undefined ? '—' : `${Number(formatUnits(wei, 'gwei')).toFixed(3)} gwei`;
+
+function FeePanel({
+  suggestions,
+  selection,
+  onSelectionChange,
+  fees,
+  summary,
+  isStale,
+  symbol,
+  isLoading,
+  canEstimate,
+  onRefresh,
+  onEstimate,
+}: FeePanelProps) {
+  const update = (patch: Partial<FeeSelection>) => onSelectionChange({ ...selection, ...patch });
+
+  // 切到手动时用当前档位预填，避免从空白开始
+  const handleModeChange = (mode: FeeMode) => {
+    if (mode === 'manual' && fees && !selection.maxFeeGwei && !selection.priorityFeeGwei) {
+      const maxFee = 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+      const priority = 'gasPrice' in fees ? fees.gasPrice : fees.maxPriorityFeePerGas;
+      update({
+        mode,
+        maxFeeGwei: formatUnits(maxFee, 'gwei'),
+        priorityFeeGwei: formatUnits(priority, 'gwei'),
+      });
+      return;
+    }
+    update({ mode });
+  };
+
+  return (
+    <div className="fee-panel">
+      <div className="fee-header">
+        <p className="label">
+          Gas 费用
+          {suggestions && ` · 下一区块 baseFee ${formatGwei(suggestions.baseFeePerGas)}`}
+          {suggestions && !suggestions.presets && '（不支持 EIP-1559，使用 gasPrice）'}
+        </p>
+        <button className="ghost" onClick={onRefresh} disabled={isLoading}>
+          {isLoading ? '读取中...' : '刷新'}
+        </button>
+      </div>
+      <div className="fee-presets">
+        {(Object.keys(SPEED_LABELS) as FeeSpeed[]).map((speed) => (
+          <button
+            key={speed}
+            className={selection.mode === speed ? 'secondary' : 'ghost'}
+            onClick={() => handleModeChange(speed)}
+          >
+            {SPEED_LABELS[speed]}
+            <span className="muted small">
+              {' '}
+              {suggestions?.presets
+                ? formatGwei(suggestions.presets[speed].maxFeePerGas)
+                : formatGwei(suggestions?.gasPrice)}
+            </span>
+          </button>
+        ))}
+        <button
+          className={selection.mode === 'manual' ? 'secondary' : 'ghost'}
+          onClick={() => handleModeChange('manual')}
+        >
+          手动
+        </button>
+      </div>
+      {selection.mode === 'manual' && (
+        <div className="fee-inputs">
+          <div className="field">
+            <label htmlFor="maxFeeGwei">maxFeePerGas (gwei)</label>
+            <input
+              id="maxFeeGwei"
+              type="number"
+              min="0"
+              step="0.1"
+              value={selection.maxFeeGwei}
+              onChange={(e) => update({ maxFeeGwei: e.target.value })}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="priorityFeeGwei">maxPriorityFeePerGas (gwei)</label>
+            <input
+              id="priorityFeeGwei"
+              type="number"
+              min="0"
+              step="0.1"
+              value={selection.priorityFeeGwei}
+              onChange={(e) => update({ priorityFeeGwei: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+      <div className="field">
+        <label htmlFor="gasLimitOverride">每笔 Gas 上限（留空自动估算）</label>
+        <input
+          id="gasLimitOverride"
+          inputMode="numeric"
+          value={selection.gasLimit}
+          onChange={(e) => update({ gasLimit: e.target.value })}
+          placeholder="例如 120000"
+        />
+      </div>
+      <button className="ghost wide" onClick={onEstimate} disabled={!canEstimate || isLoading}>
+        预估本次发送费用
+      </button>
+      {summary && (
+        <div className={isStale ? 'fee-summary stale' : 'fee-summary'}>
+          <p>
+            共 {summary.transactions} 笔交易，calldata {summary.calldataBytes} 字节 ≈{' '}
+            {summary.calldataGas.toString()} Gas，Gas 上限合计 {summary.gasLimit.toString()}
+          </p>
+          <p>
+            预计花费 {formatEther(summary.expectedWei)} {symbol}，最多{' '}
+            {formatEther(summary.maxWei)} {symbol}（含转账金额）
+          </p>
+          {isStale && <p className="muted small">消息或设置已修改，请重新预估</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FeePanel;
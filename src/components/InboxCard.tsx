@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AbstractProvider } from 'ethers';
+import {
+  DecryptedInboxEntry,
+  InboxCache,
+  InboxSource,
+  ScanProgress,
+  clearInboxCache,
+  decryptInbox,
+  entryKey,
+  loadInboxCache,
+  scanInbox,
+} from '../lib/inbox';
+import { formatAddress, formatTimestamp } from '../lib/format';
+
+type InboxCardProps = {
+  provider: AbstractProvider | null;
+  address: string;
+  chainId: number | null;
+  messengerAddress: string;
+  defaultPassphrase: string;
+  vaultPassphrases: string[];
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function InboxCard({
+  provider,
+  address,
+  chainId,
+  messengerAddress,
+  defaultPassphrase,
+  vaultPassphrases,
+  onStatus,
+  onError,
+}: InboxCardProps) {
+  const [fromBlockInput, setFromBlockInput] = useState('');
+  const [blockCount, setBlockCount] = useState('500');
+  const [source, setSource] = useState<InboxSource>('blocks');
+  const [includeLegacy, setIncludeLegacy] = useState(false);
+  const [passphrases, setPassphrases] = useState(defaultPassphrase);
+  const [privateKey, setPrivateKey] = useState('');
+  const [cache, setCache] = useState<InboxCache | null>(null);
+  const [messages, setMessages] = useState<DecryptedInboxEntry[]>([]);
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    setMessages([]);
+    setProgress(null);
+    setCache(chainId && address ? loadInboxCache(chainId, address, source) : null);
+  }, [chainId, address, source]);
+
+  const decryptAll = async (entries: InboxCache['entries']) => {
+    const typed = passphrases
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const keys = { passphrases: [...new Set([...typed, ...vaultPassphrases])], privateKey };
+    setMessages(await decryptInbox(entries, keys));
+  };
+
+  const handleScan = async () => {
+    if (!provider || !address || !chainId) {
+      onStatus('请先连接钱包');
+      return;
+    }
+    onError('');
+    setIsScanning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const latest = await provider.getBlockNumber();
+      const count = Number(blockCount);
+      const fromBlock = fromBlockInput.trim()
+        ? Number(fromBlockInput)
+        : Math.max(0, latest - count + 1);
+      if (!Number.isInteger(fromBlock) || (!fromBlockInput.trim() && !Number.isInteger(count))) {
+        throw new Error('请输入合法的区块范围');
+      }
+      const result = await scanInbox({
+        provider,
+        chainId,
+        address,
+        fromBlock,
+        toBlock: latest,
+        source,
+        messengerAddress: messengerAddress.trim(),
+        includeLegacy,
+        cache,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setCache(result);
+      await decryptAll(result.entries);
+      onStatus(
+        controller.signal.aborted
+          ? `扫描已暂停于区块 ${result.lastScannedBlock}，可稍后继续`
+          : `收件箱已更新：共 ${result.entries.length} 条消息`,
+      );
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '扫描收件箱失败');
+    } finally {
+      setIsScanning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleClear = () => {
+    if (!chainId || !address) return;
+    clearInboxCache(chainId, address, source);
+    setCache(null);
+    setMessages([]);
+    setProgress(null);
+    onStatus('收件箱缓存已清空');
+  };
+
+  return (
+    <section className="card span-2">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">收件箱</p>
+          <h2>扫描发给我的加密消息</h2>
+        </div>
+        <span className="badge">
+          {cache ? `已缓存 ${cache.fromBlock} - ${cache.lastScannedBlock}` : '无缓存'}
+        </span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="inboxSource">消息来源</label>
+          <select
+            id="inboxSource"
+            value={source}
+            onChange={(e) => setSource(e.target.value as InboxSource)}
+            disabled={isScanning}
+          >
+            <option value="blocks">逐块扫描发到本地址的交易</option>
+            <option value="messenger">Messenger 合约 Message 事件</option>
+          </select>
+        </div>
+        <div className="field">
+          <label htmlFor="inboxFromBlock">起始区块（留空则扫描最近 N 个区块）</label>
+          <input
+            id="inboxFromBlock"
+            value={fromBlockInput}
+            onChange={(e) => setFromBlockInput(e.target.value)}
+            placeholder="例如 6500000"
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="inboxBlockCount">最近区块数 N</label>
+          <input
+            id="inboxBlockCount"
+            type="number"
+            min="1"
+            value={blockCount}
+            onChange={(e) => setBlockCount(e.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="inboxPassphrases">
+            解密口令（每行一个）
+            {vaultPassphrases.length > 0 && `，另会尝试保险库中的 ${vaultPassphrases.length} 个口令`}
+          </label>
+          <textarea
+            id="inboxPassphrases"
+            value={passphrases}
+            onChange={(e) => setPassphrases(e.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="inboxPrivateKey">私钥（用于 ECIES 消息，可留空）</label>
+          <input
+            id="inboxPrivateKey"
+            type="password"
+            value={privateKey}
+            onChange={(e) => setPrivateKey(e.target.value)}
+          />
+        </div>
+        {source === 'blocks' && (
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={includeLegacy}
+              onChange={(e) => setIncludeLegacy(e.target.checked)}
+            />
+            包含无信封头的旧版异或数据
+          </label>
+        )}
+        <div className="hero-actions">
+          {isScanning ? (
+            <button className="secondary" onClick={() => abortRef.current?.abort()}>
+              暂停扫描
+            </button>
+          ) : (
+            <button className="primary" onClick={handleScan} disabled={!provider || !address}>
+              {cache ? '继续扫描新区块' : '开始扫描'}
+            </button>
+          )}
+          <button
+            className="ghost"
+            onClick={() => cache && decryptAll(cache.entries)}
+            disabled={!cache || isScanning}
+          >
+            用当前密钥重新解密
+          </button>
+          <button className="ghost" onClick={handleClear} disabled={!cache || isScanning}>
+            清空缓存
+          </button>
+        </div>
+        {progress && (
+          <p className="muted small">
+            已扫描 {progress.scanned} / {progress.total} 个区块，找到 {progress.found} 条消息
+          </p>
+        )}
+        {messages.length > 0 ? (
+          <ul className="inbox-list">
+            {messages.map((message) => (
+              <li key={entryKey(message)} className="inbox-item">
+                <div className="inbox-meta">
+                  <span>来自 {formatAddress(message.from)}</span>
+                  <span>区块 {message.blockNumber}</span>
+                  <span>{formatTimestamp(message.timestamp)}</span>
+                  {message.chunks > 1 && <span>{message.chunks} 段</span>}
+                </div>
+                <code>{message.plaintext ?? message.error}</code>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="muted small">暂无消息。扫描结果只缓存密文，明文每次用当前密钥解密。</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default InboxCard;
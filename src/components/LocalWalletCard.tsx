@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Wallet } from 'ethers';
+import {
+  LocalWallet,
+  MIN_PASSWORD_LENGTH,
+  StoredKeystore,
+  clearKeystore,
+  importLocalWallet,
+  loadKeystore,
+  saveLocalWallet,
+  unlockLocalWallet,
+} from '../lib/localWallet';
+import { formatAddress, formatTimestamp } from '../lib/format';
+
+type LocalWalletCardProps = {
+  wallet: LocalWallet | null;
+  onWalletChange: (wallet: LocalWallet | null) => void;
+  networkLabel: string;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function LocalWalletCard({
+  wallet,
+  onWalletChange,
+  networkLabel,
+  onStatus,
+  onError,
+}: LocalWalletCardProps) {
+  const [stored, setStored] = useState<StoredKeystore | null>(loadKeystore);
+  const [password, setPassword] = useState('');
+  const [secret, setSecret] = useState('');
+  // 新建钱包的助记词只展示一次，锁定或刷新页面后不再可见
+  const [newPhrase, setNewPhrase] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const run = async (task: () => Promise<void>, fallback: string) => {
+    onError('');
+    setProgress(0);
+    try {
+      await task();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const persist = async (next: LocalWallet) => {
+    const saved = await saveLocalWallet(next, password, setProgress);
+    setStored(saved);
+    setPassword('');
+    setSecret('');
+    onWalletChange(next);
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const next = Wallet.createRandom();
+      await persist(next);
+      setNewPhrase(next.mnemonic?.phrase ?? '');
+      onStatus(`已创建本地钱包 ${formatAddress(next.address)}，请立即备份助记词`);
+    }, '创建钱包失败');
+
+  const handleImport = () =>
+    run(async () => {
+      const next = importLocalWallet(secret);
+      await persist(next);
+      onStatus(`已导入本地钱包 ${formatAddress(next.address)}`);
+    }, '导入钱包失败');
+
+  const handleUnlock = () =>
+    run(async () => {
+      if (!stored) return;
+      const next = await unlockLocalWallet(stored, password, setProgress);
+      setPassword('');
+      onWalletChange(next);
+      onStatus(`本地钱包已解锁，签名将通过 ${networkLabel} 的 RPC 发送`);
+    }, '解锁失败');
+
+  const handleLock = () => {
+    setNewPhrase('');
+    onWalletChange(null);
+    onStatus('本地钱包已锁定');
+  };
+
+  const handleExport = () => {
+    if (!stored) return;
+    const url = URL.createObjectURL(new Blob([stored.json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `keystore-${stored.address}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm('确定删除本地 keystore？没有备份时钱包将无法找回。')) return;
+    clearKeystore();
+    setStored(null);
+    handleLock();
+    onStatus('本地 keystore 已删除');
+  };
+
+  const isBusy = progress !== null;
+  const busyLabel = isBusy ? `scrypt 计算中 ${Math.round((progress ?? 0) * 100)}%` : '';
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">本地钱包</p>
+          <h2>Keystore 钱包</h2>
+        </div>
+        <span className="badge">
+          {wallet ? '已解锁' : stored ? '已锁定' : '未创建'}
+        </span>
+      </div>
+      <div className="cipher-grid">
+        {wallet ? (
+          <>
+            <p className="muted small">
+              {wallet.address} · 通过 {networkLabel} 的 JsonRpcProvider 签名与广播
+            </p>
+            {newPhrase && (
+              <div className="result">
+                <p className="label">助记词（只显示这一次，请离线抄写保存）</p>
+                <code>{newPhrase}</code>
+              </div>
+            )}
+            <div className="hero-actions">
+              <button className="secondary" onClick={handleLock}>
+                锁定并切回浏览器钱包
+              </button>
+              <button className="ghost" onClick={handleExport}>
+                导出 keystore
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {stored && (
+              <p className="muted small">
+                已保存 {formatAddress(stored.address)} · 创建于 {formatTimestamp(stored.createdAt / 1000)}
+              </p>
+            )}
+            <div className="field">
+              <label htmlFor="localWalletPassword">{stored ? '密码' : '设置密码'}</label>
+              <input
+                id="localWalletPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && stored && password) void handleUnlock();
+                }}
+                placeholder={stored ? '输入密码解锁' : `至少 ${MIN_PASSWORD_LENGTH} 个字符，遗失后无法恢复`}
+              />
+            </div>
+            {stored ? (
+              <div className="hero-actions">
+                <button className="primary" onClick={handleUnlock} disabled={!password || isBusy}>
+                  {isBusy ? busyLabel : '解锁'}
+                </button>
+                <button className="ghost" onClick={handleExport} disabled={isBusy}>
+                  导出 keystore
+                </button>
+                <button className="ghost" onClick={handleRemove} disabled={isBusy}>
+                  删除
+                </button>
+              </div>
+            ) : (
+              <>
+                <button className="primary wide" onClick={handleCreate} disabled={!password || isBusy}>
+                  {isBusy ? busyLabel : '生成新钱包'}
+                </button>
+                <div className="field">
+                  <label htmlFor="localWalletSecret">或导入助记词 / 私钥</label>
+                  <textarea
+                    id="localWalletSecret"
+                    value={secret}
+                    onChange={(e) => setSecret(e.target.value)}
+                    placeholder="12 / 24 个单词的助记词，或 0x 开头的私钥"
+                  />
+                </div>
+                <button
+                  className="secondary wide"
+                  onClick={handleImport}
+                  disabled={!password || !secret.trim() || isBusy}
+                >
+                  导入并加密保存
+                </button>
+              </>
+            )}
+            <p className="muted small">
+              私钥以 JSON V3 keystore（scrypt + AES-128-CTR）格式保存在 localStorage，只在解锁期间以明文留在内存中。
+              解锁后钱包连接到当前网络的 RPC，所有卡片改用它签名，不再需要浏览器扩展。
+            </p>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default LocalWalletCard;
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import {
+  NetworkConfig,
+  addCustomNetwork,
+  exportNetworks,
+  importNetworks,
+  removeCustomNetwork,
+} from '../lib/networks';
+
+type NetworkRegistryCardProps = {
+  networks: NetworkConfig[];
+  onChange: (networks: NetworkConfig[]) => void;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+const EMPTY_FORM = {
+  name: '',
+  chainId: '',
+  rpcUrl: '',
+  explorerUrl: '',
+  symbol: 'ETH',
+};
+
+function NetworkRegistryCard({ networks, onChange, onStatus, onError }: NetworkRegistryCardProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [transferJson, setTransferJson] = useState('');
+
+  const customNetworks = networks.filter((network) => network.custom);
+
+  const updateForm = (field: keyof typeof EMPTY_FORM, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleAdd = () => {
+    onError('');
+    try {
+      const next = addCustomNetwork(networks, {
+        name: form.name,
+        chainId: form.chainId.trim().startsWith('0x')
+          ? parseInt(form.chainId.trim(), 16)
+          : form.chainId.trim(),
+        rpcUrls: form.rpcUrl,
+        blockExplorerUrls: form.explorerUrl,
+        nativeCurrency: { name: form.symbol, symbol: form.symbol, decimals: 18 },
+      });
+      onChange(next);
+      setForm(EMPTY_FORM);
+      onStatus(`已添加网络 ${form.name}`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '添加网络失败');
+    }
+  };
+
+  const handleRemove = (network: NetworkConfig) => {
+    onChange(removeCustomNetwork(networks, network.chainId));
+    onStatus(`已删除网络 ${network.name}`);
+  };
+
+  const handleExport = () => {
+    setTransferJson(exportNetworks(networks));
+    onStatus(`已导出 ${customNetworks.length} 个自定义网络`);
+  };
+
+  const handleImport = () => {
+    onError('');
+    try {
+      const result = importNetworks(networks, transferJson);
+      onChange(result.networks);
+      onStatus(`已导入 ${result.imported} 个网络`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '导入网络失败');
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">网络</p>
+          <h2>自定义网络</h2>
+        </div>
+        <span className="badge">{customNetworks.length} 个自定义</span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="networkName">网络名称</label>
+          <input
+            id="networkName"
+            value={form.name}
+            onChange={(e) => updateForm('name', e.target.value)}
+            placeholder="例如 Linea Sepolia"
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="networkChainId">链 ID（10 进制或 0x）</label>
+          <input
+            id="networkChainId"
+            value={form.chainId}
+            onChange={(e) => updateForm('chainId', e.target.value)}
+            placeholder="59141"
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="networkRpc">RPC 地址</label>
+          <input
+            id="networkRpc"
+            value={form.rpcUrl}
+            onChange={(e) => updateForm('rpcUrl', e.target.value)}
+            placeholder="https://..."
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="networkExplorer">区块浏览器（可选）</label>
+          <input
+            id="networkExplorer"
+            value={form.explorerUrl}
+            onChange={(e) => updateForm('explorerUrl', e.target.value)}
+            placeholder="https://..."
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="networkSymbol">原生代币符号</label>
+          <input
+            id="networkSymbol"
+            value={form.symbol}
+            onChange={(e) => updateForm('symbol', e.target.value)}
+          />
+        </div>
+        <button className="primary wide" onClick={handleAdd}>
+          添加网络
+        </button>
+        {customNetworks.length > 0 && (
+          <ul className="inbox-list">
+            {customNetworks.map((network) => (
+              <li key={network.chainId} className="inbox-item">
+                <div className="balance-row">
+                  <div>
+                    <strong>{network.name}</strong>
+                    <p className="muted small">
+                      {network.chainId} · {network.rpcUrls[0]}
+                    </p>
+                  </div>
+                  <button className="ghost" onClick={() => handleRemove(network)}>
+                    删除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="field">
+          <label htmlFor="networkJson">导入 / 导出 JSON</label>
+          <textarea
+            id="networkJson"
+            value={transferJson}
+            onChange={(e) => setTransferJson(e.target.value)}
+            placeholder='[{"chainId": 59141, "name": "...", "rpcUrls": ["https://..."]}]'
+          />
+        </div>
+        <div className="hero-actions">
+          <button className="secondary" onClick={handleExport}>
+            导出
+          </button>
+          <button className="secondary" onClick={handleImport} disabled={!transferJson.trim()}>
+            导入
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default NetworkRegistryCard;
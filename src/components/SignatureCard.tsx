@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { getAddress } from 'ethers';
+import {
+  SignatureVerification,
+  buildSiweMessage,
+  generateNonce,
+  verifySignedMessage,
+} from '../lib/siwe';
+import { isUserRejection } from '../lib/errors';
+import type { SignerSource } from '../lib/localWallet';
+
+type SignatureCardProps = {
+  signerSource: SignerSource | null;
+  address: string;
+  chainId: number | null;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function SignatureCard({ signerSource, address, chainId, onStatus, onError }: SignatureCardProps) {
+  const [statement, setStatement] = useState('登录 Sepolia Ethers Playground');
+  const [uri, setUri] = useState(window.location.origin);
+  const [expiryMinutes, setExpiryMinutes] = useState('10');
+  const [nonce, setNonce] = useState(() => generateNonce());
+  const [plainMessage, setPlainMessage] = useState('');
+  const [message, setMessage] = useState('');
+  const [signature, setSignature] = useState('');
+  const [expectedSigner, setExpectedSigner] = useState('');
+  const [verification, setVerification] = useState<SignatureVerification | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const sign = async (text: string, label: string) => {
+    if (!signerSource) return;
+    onError('');
+    setIsSigning(true);
+    setVerification(null);
+    try {
+      const signer = await signerSource.getSigner(address);
+      const signed = await signer.signMessage(text);
+      setMessage(text);
+      setSignature(signed);
+      setExpectedSigner(signer.address);
+      onStatus(`${label}已签名`);
+    } catch (err) {
+      if (isUserRejection(err)) {
+        onStatus('用户已取消签名');
+      } else {
+        onError(err instanceof Error ? err.message : '签名失败');
+      }
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleSignSiwe = () => {
+    onError('');
+    try {
+      if (!chainId) throw new Error('请先读取当前网络');
+      const minutes = Number(expiryMinutes);
+      const issuedAt = new Date();
+      const siwe = buildSiweMessage({
+        domain: window.location.host,
+        address: getAddress(address),
+        statement: statement.trim() || undefined,
+        uri: uri.trim(),
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime:
+          minutes > 0 ? new Date(issuedAt.getTime() + minutes * 60_000).toISOString() : undefined,
+      });
+      void sign(siwe, 'SIWE 消息');
+      // 每个 nonce 只应使用一次
+      setNonce(generateNonce());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '生成 SIWE 消息失败');
+    }
+  };
+
+  const handleVerify = () => {
+    onError('');
+    try {
+      const result = verifySignedMessage(message, signature, {
+        domain: window.location.host,
+        chainId,
+        address: expectedSigner,
+      });
+      setVerification(result);
+      onStatus(result.valid ? '签名验证通过' : '签名验证未通过，请查看失败项');
+    } catch (err) {
+      setVerification(null);
+      onError(err instanceof Error ? err.message : '验证签名失败');
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">签名</p>
+          <h2>SIWE 登录与消息签名</h2>
+        </div>
+        <span className="badge">不消耗 Gas</span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="siweStatement">Statement（可选）</label>
+          <input
+            id="siweStatement"
+            value={statement}
+            onChange={(e) => setStatement(e.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="siweUri">URI</label>
+          <input id="siweUri" value={uri} onChange={(e) => setUri(e.target.value)} />
+        </div>
+        <div className="field">
+          <label htmlFor="siweExpiry">有效期（分钟，0 表示不过期）</label>
+          <input
+            id="siweExpiry"
+            type="number"
+            min="0"
+            value={expiryMinutes}
+            onChange={(e) => setExpiryMinutes(e.target.value)}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="siweNonce">Nonce</label>
+          <div className="hero-actions">
+            <input id="siweNonce" value={nonce} onChange={(e) => setNonce(e.target.value)} />
+            <button className="ghost" onClick={() => setNonce(generateNonce())}>
+              重新生成
+            </button>
+          </div>
+        </div>
+        <p className="muted small">
+          domain 取当前页面 {window.location.host}，链 ID 取当前网络 {chainId ?? '—'}。
+        </p>
+        <button
+          className="primary wide"
+          onClick={handleSignSiwe}
+          disabled={!signerSource || !address || isSigning}
+        >
+          {isSigning ? '等待签名...' : '生成并签名 SIWE 消息'}
+        </button>
+        <div className="field">
+          <label htmlFor="plainMessage">任意消息（personal_sign）</label>
+          <textarea
+            id="plainMessage"
+            value={plainMessage}
+            onChange={(e) => setPlainMessage(e.target.value)}
+            placeholder="输入要签名的文本"
+          />
+        </div>
+        <button
+          className="secondary wide"
+          onClick={() => void sign(plainMessage, '消息')}
+          disabled={!signerSource || !address || !plainMessage || isSigning}
+        >
+          签名消息
+        </button>
+        <div className="field">
+          <label htmlFor="verifyMessage">待验证消息</label>
+          <textarea
+            id="verifyMessage"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="粘贴 SIWE 消息或普通文本"
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="verifySignature">签名</label>
+          <input
+            id="verifySignature"
+            value={signature}
+            onChange={(e) => setSignature(e.target.value)}
+            placeholder="0x..."
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="expectedSigner">预期签名地址（可选）</label>
+          <input
+            id="expectedSigner"
+            value={expectedSigner}
+            onChange={(e) => setExpectedSigner(e.target.value)}
+            placeholder="0x..."
+          />
+        </div>
+        <button
+          className="secondary wide"
+          onClick={handleVerify}
+          disabled={!message || !signature.trim()}
+        >
+          验证签名
+        </button>
+        {verification && (
+          <div className="result">
+            <p className="label">
+              {verification.valid ? '验证通过' : '验证未通过'} ·{' '}
+              {verification.siwe ? 'SIWE 消息' : '普通消息'}
+            </p>
+            <code>签名地址 {verification.recovered}</code>
+            <ul className="inbox-list">
+              {verification.checks.map((check) => (
+                <li key={check.label} className={check.ok ? 'tx-status confirmed' : 'tx-status failed'}>
+                  {check.ok ? '✓' : '✗'} {check.label}：{check.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default SignatureCard;
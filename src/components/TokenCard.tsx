@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { formatUnits } from 'ethers';
+import type { AbstractProvider, TransactionRequest, TransactionResponse } from 'ethers';
+import {
+  TokenInfo,
+  addToken,
+  buildTokenTransfer,
+  fetchTokenBalances,
+  loadTokens,
+  removeToken,
+} from '../lib/tokens';
+import { formatAddress } from '../lib/format';
+
+type TokenCardProps = {
+  provider: AbstractProvider | null;
+  chainId: number | null;
+  address: string;
+  canSign: boolean;
+  onTransfer: (
+    request: TransactionRequest & { data: string },
+    preview: string,
+  ) => Promise<TransactionResponse | null>;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function TokenCard({
+  provider,
+  chainId,
+  address,
+  canSign,
+  onTransfer,
+  onStatus,
+  onError,
+}: TokenCardProps) {
+  const [tokens, setTokens] = useState<TokenInfo[]>([]);
+  const [balances, setBalances] = useState<Record<string, bigint | null>>({});
+  const [tokenInput, setTokenInput] = useState('');
+  const [selected, setSelected] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [isLoadingBalances, setIsLoadingBalances] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  useEffect(() => {
+    const list = chainId ? loadTokens(chainId) : [];
+    setTokens(list);
+    setSelected(list[0]?.address ?? '');
+    setBalances({});
+  }, [chainId]);
+
+  useEffect(() => {
+    if (!provider || !address || tokens.length === 0) return;
+    let cancelled = false;
+    setIsLoadingBalances(true);
+    fetchTokenBalances(provider, tokens, address)
+      .then((next) => {
+        if (!cancelled) setBalances(next);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingBalances(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, address, tokens]);
+
+  const selectedToken = tokens.find((token) => token.address === selected);
+
+  const handleAdd = async () => {
+    if (!provider || !chainId) return;
+    onError('');
+    setIsAdding(true);
+    try {
+      const next = await addToken(provider, chainId, tokenInput);
+      const added = next[next.length - 1];
+      setTokens(next);
+      setSelected(added.address);
+      setTokenInput('');
+      onStatus(`已添加代币 ${added.symbol}（${added.decimals} 位小数）`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '添加代币失败');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = (token: TokenInfo) => {
+    const next = removeToken(token.chainId, token.address);
+    setTokens(next);
+    if (selected === token.address) setSelected(next[0]?.address ?? '');
+    onStatus(`已移除代币 ${token.symbol}`);
+  };
+
+  const handleRefresh = async () => {
+    if (!provider || !address) return;
+    setIsLoadingBalances(true);
+    try {
+      setBalances(await fetchTokenBalances(provider, tokens, address));
+    } finally {
+      setIsLoadingBalances(false);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!provider || !selectedToken) return;
+    onError('');
+    setIsTransferring(true);
+    try {
+      const request = await buildTokenTransfer(provider, selectedToken, address, recipient, amount);
+      await onTransfer(
+        request,
+        `[代币] ${amount.trim()} ${selectedToken.symbol} → ${formatAddress(recipient.trim())}`,
+      );
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '代币转账失败');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">ERC-20</p>
+          <h2>代币余额与转账</h2>
+        </div>
+        <span className="badge">{tokens.length} 个代币</span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="tokenAddress">添加代币（合约地址）</label>
+          <input
+            id="tokenAddress"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="0x...，symbol 与 decimals 自动从链上读取"
+          />
+        </div>
+        <button
+          className="secondary wide"
+          onClick={handleAdd}
+          disabled={!provider || !chainId || !tokenInput.trim() || isAdding}
+        >
+          {isAdding ? '读取中...' : '添加代币'}
+        </button>
+        {tokens.length > 0 && (
+          <ul className="inbox-list">
+            {tokens.map((token) => {
+              const balance = balances[token.address];
+              return (
+                <li key={token.address} className="inbox-item">
+                  <div className="balance-row">
+                    <div>
+                      <strong>
+                        {balance === undefined || balance === null
+                          ? '—'
+                          : formatUnits(balance, token.decimals)}{' '}
+                        {token.symbol}
+                      </strong>
+                      <p className="muted small">
+                        {token.name} · {formatAddress(token.address)}
+                      </p>
+                    </div>
+                    <button className="ghost" onClick={() => handleRemove(token)}>
+                      移除
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <button
+          className="ghost wide"
+          onClick={handleRefresh}
+          disabled={!provider || !address || tokens.length === 0 || isLoadingBalances}
+        >
+          {isLoadingBalances ? '读取中...' : '刷新代币余额'}
+        </button>
+        <div className="field">
+          <label htmlFor="tokenSelect">转出代币</label>
+          <select
+            id="tokenSelect"
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            disabled={tokens.length === 0}
+          >
+            {tokens.map((token) => (
+              <option key={token.address} value={token.address}>
+                {token.symbol}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <label htmlFor="tokenRecipient">收款地址</label>
+          <input
+            id="tokenRecipient"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            placeholder="输入 0x 开头地址"
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="tokenAmount">数量{selectedToken ? `（${selectedToken.symbol}）` : ''}</label>
+          <input
+            id="tokenAmount"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.0"
+          />
+        </div>
+        <button
+          className="primary wide"
+          onClick={handleTransfer}
+          disabled={!canSign || !selectedToken || !address || isTransferring}
+        >
+          {isTransferring ? '发送中...' : '发送代币'}
+        </button>
+        <p className="muted small">
+          代币转账调用合约的 transfer，Gas 设置沿用转账卡片中的费用面板。
+        </p>
+      </div>
+    </section>
+  );
+}
+
+export default TokenCard;
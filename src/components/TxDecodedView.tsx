@@ -0,0 +1,64 @@
+import { formatEther, formatUnits } from 'ethers';
+import type { DecodedCall, DecodedTransaction } from '../lib/txDecoder';
+import { formatAddress } from '../lib/format';
+
+type TxDecodedViewProps = {
+  decoded: DecodedTransaction;
+  symbol: string;
+};
+
+const formatCall = (call: DecodedCall) =>
+  `${call.signature}  [${call.source}]\n${JSON.stringify(call.args, null, 2)}`;
+
+function TxDecodedView({ decoded, symbol }: TxDecodedViewProps) {
+  const { fee } = decoded;
+  return (
+    <>
+      {fee && (
+        <div className="result">
+          <p className="label">费用</p>
+          <code>
+            Gas {fee.gasUsed.toString()} / {fee.gasLimit.toString()}（
+            {((Number(fee.gasUsed) / Number(fee.gasLimit)) * 100).toFixed(1)}%）
+            {'\n'}实际 Gas 价格 {formatUnits(fee.effectiveGasPrice, 'gwei')} gwei
+            {'\n'}手续费 {formatEther(fee.feeWei)} {symbol}
+          </code>
+        </div>
+      )}
+      {decoded.revertReason && (
+        <div className="result">
+          <p className="label tx-status failed">回滚原因</p>
+          <code>{decoded.revertReason}</code>
+        </div>
+      )}
+      {decoded.selector && (
+        <div className="result">
+          <p className="label">调用 {decoded.selector}</p>
+          <code>{decoded.call ? formatCall(decoded.call) : '没有匹配的 ABI'}</code>
+        </div>
+      )}
+      {decoded.logs.length > 0 && (
+        <div className="result">
+          <p className="label">事件日志（{decoded.logs.length}）</p>
+          <ul className="inbox-list">
+            {decoded.logs.map((log) => (
+              <li key={log.index} className="inbox-item">
+                <div className="inbox-meta">
+                  <span>#{log.index}</span>
+                  <span>{formatAddress(log.address)}</span>
+                </div>
+                <code>
+                  {log.event
+                    ? formatCall(log.event)
+                    : `未识别\ntopics: ${log.topics.join('\n        ')}\ndata: ${log.data}`}
+                </code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default TxDecodedView;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { formatEther, formatUnits } from 'ethers';
+import type { AbstractProvider } from 'ethers';
+import {
+  ReplaceReason,
+  TxRecord,
+  TxStatus,
+  clearTxHistory,
+  refreshPendingTxs,
+} from '../lib/txStore';
+import type { ReplacementAction } from '../lib/txReplacement';
+import { formatAddress, formatTimestamp } from '../lib/format';
+
+type TxHistoryCardProps = {
+  provider: AbstractProvider | null;
+  chainId: number | null;
+  records: TxRecord[];
+  onRecordsChange: (records: TxRecord[]) => void;
+  canSign: boolean;
+  replacingHash: string;
+  onReplace: (record: TxRecord, action: ReplacementAction) => void;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+const STATUS_LABELS: Record<TxStatus, string> = {
+  pending: '等待确认',
+  confirmed: '已确认',
+  failed: '执行失败',
+  dropped: '已丢弃',
+  replaced: '已被替换',
+};
+
+const REPLACE_REASON_LABELS: Record<ReplaceReason, string> = {
+  repriced: '加速',
+  cancelled: '取消',
+  replaced: '替换',
+};
+
+const POLL_INTERVAL = 15_000;
+
+const formatGwei = (wei: string | null) => (wei ? `${formatUnits(wei, 'gwei')} gwei` : '—');
+
+function TxHistoryCard({
+  provider,
+  chainId,
+  records,
+  onRecordsChange,
+  canSign,
+  replacingHash,
+  onReplace,
+  onStatus,
+  onError,
+}: TxHistoryCardProps) {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const hasPending = records.some((record) => record.status === 'pending');
+
+  // 启动或切换网络后重新检查 pending 交易，之后只要还有 pending 就定时轮询
+  useEffect(() => {
+    if (!provider || !chainId || !hasPending) return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const next = await refreshPendingTxs(provider, chainId);
+        if (!cancelled) onRecordsChange(next);
+      } catch (err) {
+        if (!cancelled) onError(err instanceof Error ? err.message : '刷新交易状态失败');
+      }
+    };
+    void poll();
+    const timer = window.setInterval(poll, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [provider, chainId, hasPending, onRecordsChange, onError]);
+
+  const handleRefresh = async () => {
+    if (!provider || !chainId) return;
+    setIsRefreshing(true);
+    onError('');
+    try {
+      onRecordsChange(await refreshPendingTxs(provider, chainId));
+      onStatus('交易状态已刷新');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '刷新交易状态失败');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (!chainId) return;
+    clearTxHistory(chainId);
+    onRecordsChange([]);
+    onStatus('当前网络的交易记录已清空');
+  };
+
+  return (
+    <section className="card span-2">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">交易记录</p>
+          <h2>已发送的交易</h2>
+        </div>
+        <span className="badge">{hasPending ? '有待确认交易' : `${records.length} 笔`}</span>
+      </div>
+      <div className="cipher-grid">
+        <div className="hero-actions">
+          <button
+            className="secondary"
+            onClick={handleRefresh}
+            disabled={!provider || !chainId || isRefreshing}
+          >
+            {isRefreshing ? '刷新中...' : '刷新状态'}
+          </button>
+          <button className="ghost" onClick={handleClear} disabled={records.length === 0}>
+            清空记录
+          </button>
+        </div>
+        {records.length > 0 ? (
+          <ul className="inbox-list">
+            {records.map((record) => (
+              <li key={record.hash} className="inbox-item">
+                <div className="inbox-meta">
+                  <span className={`tx-status ${record.status}`}>
+                    {STATUS_LABELS[record.status]}
+                  </span>
+                  <span>nonce {record.nonce}</span>
+                  <span>至 {record.to ? formatAddress(record.to) : '合约创建'}</span>
+                  <span>{formatEther(record.valueWei)} ETH</span>
+                  <span>Gas 上限 {record.gasLimit}</span>
+                  <span>
+                    费用上限 {formatGwei(record.maxFeePerGas ?? record.gasPrice)}
+                  </span>
+                  {record.blockNumber && <span>区块 {record.blockNumber}</span>}
+                  <span>{formatTimestamp(record.createdAt / 1000)}</span>
+                </div>
+                <p className="muted small">{record.preview || '—'}</p>
+                <code>{record.hash}</code>
+                {record.replaces && (
+                  <p className="muted small">替换自：{record.replaces}</p>
+                )}
+                {record.replacedBy && (
+                  <p className="muted small">
+                    已被{record.replaceReason ? REPLACE_REASON_LABELS[record.replaceReason] : '替换'}
+                    ，实际上链：{record.replacedBy}
+                  </p>
+                )}
+                {record.status === 'pending' && (
+                  <div className="hero-actions">
+                    <button
+                      className="secondary"
+                      onClick={() => onReplace(record, 'speed-up')}
+                      disabled={!canSign || !!replacingHash}
+                    >
+                      {replacingHash === record.hash ? '处理中...' : '加速'}
+                    </button>
+                    <button
+                      className="ghost"
+                      onClick={() => onReplace(record, 'cancel')}
+                      disabled={!canSign || !!replacingHash}
+                    >
+                      取消
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="muted small">暂无交易。发送的交易会按网络保存在浏览器本地。</p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default TxHistoryCard;
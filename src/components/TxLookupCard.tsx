@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { MessagingClient, ReadResult, describePayload } from '../lib/messagingClient';
+import { VaultKey, keysForAddresses } from '../lib/keyVault';
+import { collectAbiSources } from '../lib/txDecoder';
+import EnsAddress from './EnsAddress';
+import TxDecodedView from './TxDecodedView';
+import AttachmentPreview from './AttachmentPreview';
+
+type TxLookupCardProps = {
+  messaging: MessagingClient | null;
+  chainId: number | null;
+  // 由父组件持有，便于“最近收到的交易”一键填入
+  hash: string;
+  onHashChange: (hash: string) => void;
+  // 查询框为空时使用发送卡片的最新交易哈希（多段消息为换行分隔的多笔）
+  latestHashes: string;
+  vaultKeys: VaultKey[] | null;
+  defaultPassphrase: string;
+  // 本地钱包解锁时，未填写私钥则直接用它解密发给自己的 ECIES 消息
+  walletPrivateKey?: string;
+  symbol: string;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+const splitHashes = (input: string) => input.split(/[\s,]+/).filter(Boolean);
+
+const describeResult = ({ info, message, error }: ReadResult) => {
+  if (info.data === '0x') return '';
+  if (message) return `[${describePayload(message)}] ${message.content}`;
+  return error ?? '未识别为加密消息，可能是普通合约调用';
+};
+
+function TxLookupCard({
+  messaging,
+  chainId,
+  hash: lookupHash,
+  onHashChange,
+  latestHashes,
+  vaultKeys,
+  defaultPassphrase,
+  walletPrivateKey,
+  symbol,
+  onStatus,
+  onError,
+}: TxLookupCardProps) {
+  const [lookupAbi, setLookupAbi] = useState('');
+  const [privateKey, setPrivateKey] = useState('');
+  const [result, setResult] = useState<ReadResult | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    setResult(null);
+  }, [chainId]);
+
+  const handleFetch = async () => {
+    if (!messaging) {
+      onStatus('请先连接钱包');
+      return;
+    }
+    const [hash, ...extraHashes] = splitHashes(lookupHash.trim() || latestHashes);
+    if (!hash) {
+      onError('请输入交易哈希');
+      return;
+    }
+    onError('');
+    onStatus('');
+    setIsFetching(true);
+    setResult(null);
+    try {
+      const next = await messaging.read(hash, {
+        // 先试与发送方、接收方绑定的保险库口令，再试表单中的口令
+        keys: (info) => {
+          const candidates = keysForAddresses(vaultKeys, [info.from, info.messageTo ?? info.to]);
+          return {
+            passphrases: [...new Set([...candidates.map((entry) => entry.key), defaultPassphrase])],
+            privateKey: privateKey || walletPrivateKey,
+          };
+        },
+        extraHashes,
+        sources: collectAbiSources(chainId, lookupAbi),
+      });
+      setResult(next);
+      onStatus('交易数据已获取');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : '查询交易失败');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const info = result?.info ?? null;
+  const attachment = result?.message?.attachment ?? null;
+  const provider = messaging?.provider ?? null;
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">链上数据</p>
+          <h2>根据哈希查询交易</h2>
+        </div>
+        <span className="badge">读取链上</span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="lookupHash">交易哈希</label>
+          <textarea
+            id="lookupHash"
+            value={lookupHash}
+            onChange={(e) => onHashChange(e.target.value)}
+            placeholder="0x 开头的交易哈希，分段消息可用逗号或换行填写多笔，默认用上方最新交易"
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="lookupAbi">额外 ABI（可选，用于解码 calldata 与事件）</label>
+          <textarea
+            id="lookupAbi"
+            value={lookupAbi}
+            onChange={(e) => setLookupAbi(e.target.value)}
+            placeholder="已内置 ERC-20 / ERC-721 / WETH / Messenger，并会使用合约控制台中保存的 ABI"
+          />
+        </div>
+        <button className="primary wide" onClick={handleFetch} disabled={!messaging || isFetching}>
+          {isFetching ? '读取中...' : '查询交易'}
+        </button>
+        <div className="field">
+          <label htmlFor="lookupPrivateKey">私钥（仅用于本地解密 ECIES 数据）</label>
+          <input
+            id="lookupPrivateKey"
+            type="password"
+            value={privateKey}
+            onChange={(e) => setPrivateKey(e.target.value)}
+            placeholder={walletPrivateKey ? '留空则使用已解锁的本地钱包' : '不会离开浏览器，可留空'}
+          />
+        </div>
+        <p className="muted small">
+          使用当前密钥尝试解密 data 字段，自动识别 AES-GCM 信封与旧版异或密文；ECIES
+          数据需要接收方私钥，填写后重新查询即可解密。
+        </p>
+        {info && (
+          <div className="result">
+            <EnsAddress provider={provider} chainId={chainId} address={info.from} label="from" />
+            <EnsAddress provider={provider} chainId={chainId} address={info.to} label="to" />
+            {info.messageTo && (
+              <EnsAddress
+                provider={provider}
+                chainId={chainId}
+                address={info.messageTo}
+                label="messageTo"
+              />
+            )}
+          </div>
+        )}
+        <div className="result">
+          <p className="label">查询结果</p>
+          <code>
+            {info
+              ? JSON.stringify(
+                  {
+                    hash: info.hash,
+                    from: info.from,
+                    to: info.to,
+                    ...(info.messageTo ? { messageTo: info.messageTo } : {}),
+                    valueEth: `${info.valueEth} ETH`,
+                    blockNumber: info.blockNumber,
+                    status: info.status,
+                    data: info.data,
+                  },
+                  null,
+                  2
+                )
+              : '—'}
+          </code>
+        </div>
+        {result && <TxDecodedView decoded={result.decoded} symbol={symbol} />}
+        <div className="result">
+          <p className="label">data 解密尝试</p>
+          <code>{(result && describeResult(result)) || '—'}</code>
+        </div>
+        {attachment && <AttachmentPreview attachment={attachment} />}
+      </div>
+    </section>
+  );
+}
+
+export default TxLookupCard;
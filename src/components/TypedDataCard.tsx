@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import {
+  TypedDataHashes,
+  TypedDataTemplate,
+  buildTemplate,
+  hashTypedData,
+  parseTypedData,
+  recoverTypedDataSigner,
+} from '../lib/typedData';
+import { isUserRejection } from '../lib/errors';
+import type { SignerSource } from '../lib/localWallet';
+
+type TypedDataCardProps = {
+  signerSource: SignerSource | null;
+  address: string;
+  chainId: number | null;
+  lastMessage: { to: string; payloadHash: string } | null;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+const TEMPLATE_LABELS: Record<TypedDataTemplate, string> = {
+  permit: 'ERC-2612 Permit',
+  encryptedMessage: 'EncryptedMessage（加密消息作者证明）',
+};
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+function TypedDataCard({
+  signerSource,
+  address,
+  chainId,
+  lastMessage,
+  onStatus,
+  onError,
+}: TypedDataCardProps) {
+  const [template, setTemplate] = useState<TypedDataTemplate>('encryptedMessage');
+  const [domainJson, setDomainJson] = useState('');
+  const [typesJson, setTypesJson] = useState('');
+  const [valueJson, setValueJson] = useState('');
+  const [hashes, setHashes] = useState<TypedDataHashes | null>(null);
+  const [signature, setSignature] = useState('');
+  const [recovered, setRecovered] = useState('');
+  const [isSigning, setIsSigning] = useState(false);
+
+  const handleLoadTemplate = () => {
+    const data = buildTemplate(template, {
+      chainId: chainId ?? 11155111,
+      address,
+      recipient: template === 'encryptedMessage' ? lastMessage?.to : undefined,
+      payloadHash: lastMessage?.payloadHash,
+    });
+    setDomainJson(toJson(data.domain));
+    setTypesJson(toJson(data.types));
+    setValueJson(toJson(data.value));
+    setHashes(null);
+    setSignature('');
+    setRecovered('');
+    onStatus(
+      template === 'encryptedMessage' && lastMessage
+        ? '已载入模板，payloadHash 取自最近一次发送的加密消息'
+        : `已载入 ${TEMPLATE_LABELS[template]} 模板`,
+    );
+  };
+
+  const parse = () => parseTypedData(domainJson, typesJson, valueJson);
+
+  const handleHash = () => {
+    onError('');
+    try {
+      setHashes(hashTypedData(parse()));
+    } catch (err) {
+      setHashes(null);
+      onError(err instanceof Error ? err.message : '计算哈希失败');
+    }
+  };
+
+  const handleSign = async () => {
+    if (!signerSource) return;
+    onError('');
+    setIsSigning(true);
+    try {
+      const input = parse();
+      setHashes(hashTypedData(input));
+      const signer = await signerSource.getSigner(address);
+      const signed = await signer.signTypedData(input.domain, input.types, input.value);
+      setSignature(signed);
+      setRecovered(recoverTypedDataSigner(input, signed));
+      onStatus(`${input.primaryType} 已签名`);
+    } catch (err) {
+      if (isUserRejection(err)) {
+        onStatus('用户已取消签名');
+      } else {
+        onError(err instanceof Error ? err.message : '签名失败');
+      }
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleRecover = () => {
+    onError('');
+    try {
+      const input = parse();
+      setHashes(hashTypedData(input));
+      const signer = recoverTypedDataSigner(input, signature);
+      setRecovered(signer);
+      onStatus(`签名者 ${signer}`);
+    } catch (err) {
+      setRecovered('');
+      onError(err instanceof Error ? err.message : '恢复签名者失败');
+    }
+  };
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">EIP-712</p>
+          <h2>结构化数据签名</h2>
+        </div>
+        <span className="badge">不消耗 Gas</span>
+      </div>
+      <div className="cipher-grid">
+        <div className="field">
+          <label htmlFor="typedTemplate">模板</label>
+          <div className="hero-actions">
+            <select
+              id="typedTemplate"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value as TypedDataTemplate)}
+            >
+              {(Object.keys(TEMPLATE_LABELS) as TypedDataTemplate[]).map((key) => (
+                <option key={key} value={key}>
+                  {TEMPLATE_LABELS[key]}
+                </option>
+              ))}
+            </select>
+            <button className="ghost" onClick={handleLoadTemplate}>
+              载入
+            </button>
+          </div>
+        </div>
+        <div className="field">
+          <label htmlFor="typedDomain">domain</label>
+          <textarea
+            id="typedDomain"
+            value={domainJson}
+            onChange={(e) => setDomainJson(e.target.value)}
+            placeholder='{"name": "...", "version": "1", "chainId": 11155111}'
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="typedTypes">types</label>
+          <textarea
+            id="typedTypes"
+            value={typesJson}
+            onChange={(e) => setTypesJson(e.target.value)}
+            placeholder='{"Mail": [{"name": "contents", "type": "string"}]}'
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="typedValue">value</label>
+          <textarea
+            id="typedValue"
+            value={valueJson}
+            onChange={(e) => setValueJson(e.target.value)}
+            placeholder='{"contents": "Hello"}'
+          />
+        </div>
+        <div className="hero-actions">
+          <button className="secondary" onClick={handleHash}>
+            计算哈希
+          </button>
+          <button
+            className="primary"
+            onClick={handleSign}
+            disabled={!signerSource || !address || isSigning}
+          >
+            {isSigning ? '等待签名...' : '签名'}
+          </button>
+        </div>
+        {hashes && (
+          <div className="result">
+            <p className="label">primaryType: {hashes.primaryType}</p>
+            <code>
+              {hashes.encodedType}
+              {'\n'}domainSeparator: {hashes.domainSeparator}
+              {'\n'}structHash: {hashes.structHash}
+              {'\n'}digest: {hashes.digest}
+            </code>
+          </div>
+        )}
+        <div className="field">
+          <label htmlFor="typedSignature">签名</label>
+          <input
+            id="typedSignature"
+            value={signature}
+            onChange={(e) => setSignature(e.target.value)}
+            placeholder="粘贴签名以恢复签名者"
+          />
+        </div>
+        <button className="secondary wide" onClick={handleRecover} disabled={!signature.trim()}>
+          恢复签名者
+        </button>
+        <div className="result">
+          <p className="label">签名者</p>
+          <code>{recovered || '—'}</code>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default TypedDataCard;
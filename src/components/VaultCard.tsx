@@ -0,0 +1,282 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  VaultKey,
+  buildVaultKey,
+  createVault,
+  destroyVault,
+  saveVault,
+  unlockVault,
+  vaultExists,
+} from '../lib/keyVault';
+import { formatAddress } from '../lib/format';
+
+type VaultCardProps = {
+  keys: VaultKey[] | null;
+  onKeysChange: (keys: VaultKey[] | null) => void;
+  suggestedContact: string;
+  onUseKey: (key: string) => void;
+  onStatus: (message: string) => void;
+  onError: (message: string) => void;
+};
+
+function VaultCard({
+  keys,
+  onKeysChange,
+  suggestedContact,
+  onUseKey,
+  onStatus,
+  onError,
+}: VaultCardProps) {
+  const [exists, setExists] = useState<boolean | null>(null);
+  const [masterInput, setMasterInput] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(String(DEFAULT_AUTO_LOCK_MINUTES));
+  const [label, setLabel] = useState('');
+  const [keyInput, setKeyInput] = useState('');
+  const [contacts, setContacts] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  // 解锁期间保留主口令用于重新加密，锁定时清空
+  const masterRef = useRef('');
+  const isUnlocked = keys !== null;
+
+  useEffect(() => {
+    vaultExists()
+      .then(setExists)
+      .catch((err) => onError(err instanceof Error ? err.message : '读取保险库失败'));
+  }, [onError]);
+
+  // 一段时间内没有键盘或指针操作则自动锁定
+  useEffect(() => {
+    const minutes = Number(autoLockMinutes);
+    if (!isUnlocked || !(minutes > 0)) return;
+    const lock = () => {
+      masterRef.current = '';
+      onKeysChange(null);
+      onStatus('保险库已自动锁定');
+    };
+    let timer = window.setTimeout(lock, minutes * 60_000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, minutes * 60_000);
+    };
+    window.addEventListener('pointerdown', reset);
+    window.addEventListener('keydown', reset);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('pointerdown', reset);
+      window.removeEventListener('keydown', reset);
+    };
+  }, [isUnlocked, autoLockMinutes, onKeysChange, onStatus]);
+
+  const run = async (task: () => Promise<void>, fallback: string) => {
+    onError('');
+    setIsBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () =>
+    run(async () => {
+      const next = exists ? await unlockVault(masterInput) : await createVault(masterInput);
+      masterRef.current = masterInput;
+      setMasterInput('');
+      setExists(true);
+      onKeysChange(next);
+      onStatus(exists ? `保险库已解锁，共 ${next.length} 个密钥` : '保险库已创建');
+    }, '解锁保险库失败');
+
+  const handleLock = () => {
+    masterRef.current = '';
+    onKeysChange(null);
+    onStatus('保险库已锁定');
+  };
+
+  const persist = async (next: VaultKey[]) => {
+    await saveVault(next, masterRef.current);
+    onKeysChange(next);
+  };
+
+  const handleAdd = () =>
+    run(async () => {
+      if (!keys) return;
+      const entry = buildVaultKey(label, keyInput, contacts);
+      await persist([...keys, entry]);
+      setLabel('');
+      setKeyInput('');
+      setContacts('');
+      onStatus(`已保存密钥「${entry.label}」，绑定 ${entry.contacts.length} 个联系人`);
+    }, '保存密钥失败');
+
+  const handleRemove = (entry: VaultKey) =>
+    run(async () => {
+      if (!keys) return;
+      await persist(keys.filter((item) => item.id !== entry.id));
+      onStatus(`已删除密钥「${entry.label}」`);
+    }, '删除密钥失败');
+
+  const handleDestroy = () =>
+    run(async () => {
+      if (!window.confirm('确定删除整个保险库？其中的密钥无法恢复。')) return;
+      await destroyVault();
+      masterRef.current = '';
+      setExists(false);
+      onKeysChange(null);
+      onStatus('保险库已删除');
+    }, '删除保险库失败');
+
+  return (
+    <section className="card">
+      <div className="card-header">
+        <div>
+          <p className="eyebrow">密钥</p>
+          <h2>密钥保险库</h2>
+        </div>
+        <span className="badge">
+          {exists === false ? '未创建' : isUnlocked ? `已解锁 · ${keys.length} 个密钥` : '已锁定'}
+        </span>
+      </div>
+      <div className="cipher-grid">
+        {!isUnlocked ? (
+          <>
+            <div className="field">
+              <label htmlFor="vaultMaster">{exists === false ? '设置主口令' : '主口令'}</label>
+              <input
+                id="vaultMaster"
+                type="password"
+                value={masterInput}
+                onChange={(e) => setMasterInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && masterInput) void handleUnlock();
+                }}
+                placeholder={exists === false ? '至少 8 个字符，遗失后无法恢复' : '输入主口令解锁'}
+              />
+            </div>
+            <div className="hero-actions">
+              <button
+                className="primary"
+                onClick={handleUnlock}
+                disabled={!masterInput || isBusy || exists === null}
+              >
+                {exists === false ? '创建保险库' : '解锁'}
+              </button>
+              {exists && (
+                <button className="ghost" onClick={handleDestroy} disabled={isBusy}>
+                  删除保险库
+                </button>
+              )}
+            </div>
+            <p className="muted small">
+              密钥列表用主口令经 PBKDF2 + AES-GCM 加密后保存在 IndexedDB，主口令只在解锁期间留在内存中。
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="hero-actions">
+              <button className="secondary" onClick={handleLock}>
+                立即锁定
+              </button>
+              <label className="muted small" htmlFor="vaultAutoLock">
+                空闲
+              </label>
+              <input
+                id="vaultAutoLock"
+                type="number"
+                min="0"
+                value={autoLockMinutes}
+                onChange={(e) => setAutoLockMinutes(e.target.value)}
+              />
+              <span className="muted small">分钟后自动锁定（0 表示不自动锁定）</span>
+            </div>
+            {keys.length > 0 && (
+              <ul className="inbox-list">
+                {keys.map((entry) => (
+                  <li key={entry.id} className="inbox-item">
+                    <div className="balance-row">
+                      <div>
+                        <strong>{entry.label}</strong>
+                        <p className="muted small">
+                          {entry.contacts.length > 0
+                            ? entry.contacts.map(formatAddress).join('、')
+                            : '未绑定联系人'}
+                        </p>
+                      </div>
+                      <div className="hero-actions">
+                        <button className="ghost" onClick={() => onUseKey(entry.key)}>
+                          填入口令
+                        </button>
+                        <button
+                          className="ghost"
+                          onClick={() => handleRemove(entry)}
+                          disabled={isBusy}
+                        >
+                          删除
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="field">
+              <label htmlFor="vaultLabel">密钥名称</label>
+              <input
+                id="vaultLabel"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="例如：Alice 专用"
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="vaultKey">口令</label>
+              <input
+                id="vaultKey"
+                type="password"
+                value={keyInput}
+                onChange={(e) => setKeyInput(e.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="vaultContacts">联系人地址（逗号或换行分隔）</label>
+              <textarea
+                id="vaultContacts"
+                value={contacts}
+                onChange={(e) => setContacts(e.target.value)}
+                placeholder="0x..."
+              />
+            </div>
+            {suggestedContact && !contacts.includes(suggestedContact) && (
+              <button
+                className="ghost wide"
+                onClick={() =>
+                  setContacts((current) =>
+                    current ? `${current}\n${suggestedContact}` : suggestedContact,
+                  )
+                }
+              >
+                添加当前收款地址 {formatAddress(suggestedContact)}
+              </button>
+            )}
+            <button
+              className="secondary wide"
+              onClick={handleAdd}
+              disabled={!label.trim() || !keyInput || isBusy}
+            >
+              保存密钥
+            </button>
+            <p className="muted small">
+              发送加密消息时按收款地址自动选用绑定的口令；查询交易时依次尝试发送方与接收方绑定的全部口令，
+              最后再试表单中的口令。
+            </p>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default VaultCard;
@@ -0,0 +1,73 @@
+import { formatEther } from 'ethers';
+import type { WalletOption } from '../lib/wallets';
+import { formatAddress } from '../lib/format';
+
+type WalletPickerProps = {
+  wallets: WalletOption[];
+  selectedUuid: string | null;
+  onSelectWallet: (uuid: string) => void;
+  accounts: string[];
+  balances: Record<string, bigint>;
+  address: string;
+  onSelectAccount: (account: string) => void;
+  symbol: string;
+};
+
+function WalletPicker({
+  wallets,
+  selectedUuid,
+  onSelectWallet,
+  accounts,
+  balances,
+  address,
+  onSelectAccount,
+  symbol,
+}: WalletPickerProps) {
+  return (
+    <>
+      {wallets.length > 1 && (
+        <div className="field">
+          <p className="label">已安装的钱包（EIP-6963）</p>
+          <div className="wallet-options">
+            {wallets.map(({ info }) => (
+              <button
+                key={info.uuid}
+                className={info.uuid === selectedUuid ? 'secondary' : 'ghost'}
+                onClick={() => onSelectWallet(info.uuid)}
+              >
+                {info.icon && <img src={info.icon} alt="" width={20} height={20} />}
+                {info.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {accounts.length > 1 && (
+        <div className="field">
+          <p className="label">授权账户（点击切换签名账户）</p>
+          <ul className="inbox-list">
+            {accounts.map((account) => (
+              <li key={account}>
+                <button
+                  className={account === address ? 'secondary wide' : 'ghost wide'}
+                  onClick={() => onSelectAccount(account)}
+                >
+                  <span className="balance-row">
+                    <span>{formatAddress(account)}</span>
+                    <span>
+                      {balances[account] === undefined
+                        ? '...'
+                        : `${formatEther(balances[account])} ${symbol}`}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default WalletPicker;
@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import type { TransactionResponse } from 'ethers';
+import { ComposedMessage, MessagingClient, SendOptions } from '../lib/messagingClient';
+import { saveMessengerAddress } from '../lib/messenger';
+
+export type SendFlow = {
+  // 组装消息、取签名者与费用设置；在发送状态内执行，便于按钮立即进入“发送中”
+  prepare: () => Promise<SendOptions & { message: ComposedMessage }>;
+  onStatus: (message: string) => void;
+  onSent: (tx: TransactionResponse, chainId: number, index: number, total: number) => void;
+};
+
+const labelOf = (index: number, total: number) => (total > 1 ? `第 ${index + 1}/${total} 段` : '交易');
+
+/**
+ * 发送卡片的编排：逐段报告 Gas 估算与发送进度、累积已发出的哈希，
+ * 全部发出后记住本链使用的 Messenger 合约。失败时抛出，由调用方区分用户取消与其他错误。
+ */
+export const useMessageSender = (messaging: MessagingClient | null) => {
+  const [isSending, setIsSending] = useState(false);
+  const [hashes, setHashes] = useState<string[]>([]);
+  const clear = useCallback(() => setHashes([]), []);
+
+  const send = async ({ prepare, onStatus, onSent }: SendFlow): Promise<ComposedMessage> => {
+    if (!messaging) {
+      throw new Error('请先连接钱包');
+    }
+    setHashes([]);
+    setIsSending(true);
+    try {
+      const chainId = Number((await messaging.provider.getNetwork()).chainId);
+      const { message, ...options } = await prepare();
+      const offGas = messaging.on('gas', ({ index, total, estimate }) =>
+        onStatus(
+          estimate.estimated
+            ? `${labelOf(index, total)}已估算 Gas: ${estimate.gasLimit.toString()}`
+            : `${labelOf(index, total)} Gas 估算失败，按 calldata 推算为 ${estimate.gasLimit.toString()}`,
+        ),
+      );
+      const offSent = messaging.on('sent', ({ tx, index, total }) => {
+        setHashes((current) => [...current, tx.hash]);
+        onStatus(`${labelOf(index, total)}已发送，可在交易记录中查看确认状态`);
+        onSent(tx, chainId, index, total);
+      });
+      try {
+        await messaging.send(message, options);
+      } finally {
+        offGas();
+        offSent();
+      }
+      if (message.messenger) {
+        saveMessengerAddress(chainId, message.messenger);
+      }
+      return message;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return { isSending, hashes, send, clear };
+};
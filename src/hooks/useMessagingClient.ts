@@ -0,0 +1,6 @@
+import { useMemo } from 'react';
+import type { AbstractProvider } from 'ethers';
+import { MessagingClient, createMessagingClient } from '../lib/messagingClient';
+
+export const useMessagingClient = (provider: AbstractProvider | null): MessagingClient | null =>
+  useMemo(() => (provider ? createMessagingClient(provider) : null), [provider]);
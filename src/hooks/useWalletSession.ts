@@ -0,0 +1,36 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import type { AbstractProvider } from 'ethers';
+import {
+  EMPTY_SNAPSHOT,
+  SessionSnapshot,
+  WalletSession,
+  createWalletSession,
+} from '../lib/walletSession';
+
+const noopSubscribe = () => () => undefined;
+const emptySnapshot = () => EMPTY_SNAPSHOT;
+
+/** provider 或地址变化时重建会话，旧会话的监听随之销毁。 */
+export const useWalletSession = (
+  provider: AbstractProvider | null,
+  address: string,
+): { session: WalletSession | null; snapshot: SessionSnapshot } => {
+  const [session, setSession] = useState<WalletSession | null>(null);
+
+  useEffect(() => {
+    if (!provider) {
+      setSession(null);
+      return;
+    }
+    const next = createWalletSession(provider, { address: address || null });
+    setSession(next);
+    next.start();
+    return () => next.destroy();
+  }, [provider, address]);
+
+  const snapshot = useSyncExternalStore(
+    session?.subscribe ?? noopSubscribe,
+    session?.getSnapshot ?? emptySnapshot,
+  );
+  return { session, snapshot };
+};
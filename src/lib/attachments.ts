@@ -0,0 +1,141 @@
+import { DEFAULT_CHUNK_SIZE, FRAME_HEADER_LENGTH } from './framing';
+import { formatBytes } from './format';
+import { ciphertextTokens, intrinsicGasForTokens } from './fees';
+
+export type Attachment = {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+};
+
+export type PreviewKind = 'image' | 'json' | 'text' | 'download';
+
+// 附件格式：nameLength(1) | name(UTF-8) | mimeLength(1) | mimeType(ASCII) | bytes
+const MAX_FIELD_LENGTH = 0xff;
+const FALLBACK_MIME = 'application/octet-stream';
+
+// 超过单帧上限会拆成多笔交易，超过硬上限直接拒绝，避免一次签几十笔交易
+export const ATTACHMENT_WARN_BYTES = DEFAULT_CHUNK_SIZE;
+export const MAX_ATTACHMENT_BYTES = 10 * DEFAULT_CHUNK_SIZE;
+
+// 信封头、认证标签与附件头等固定开销
+const CIPHER_OVERHEAD_BYTES = 128;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+];
+
+const PREVIEWABLE_IMAGES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const truncateUtf8 = (text: string): Uint8Array => {
+  let bytes = encoder.encode(text);
+  let chars = Array.from(text);
+  while (bytes.length > MAX_FIELD_LENGTH) {
+    chars = chars.slice(0, -1);
+    bytes = encoder.encode(chars.join(''));
+  }
+  return bytes;
+};
+
+const decodeUtf8 = (bytes: Uint8Array): string | null => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+/** 按文件头魔数识别常见格式，其余按能否解析为 UTF-8 / JSON 区分文本与二进制。 */
+export const sniffMimeType = (bytes: Uint8Array): string => {
+  const matched = SIGNATURES.find(({ bytes: magic, offset = 0 }) =>
+    magic.every((byte, i) => bytes[offset + i] === byte),
+  );
+  if (matched) {
+    return matched.mimeType;
+  }
+  const text = decodeUtf8(bytes);
+  if (text === null || text.includes('\u0000')) {
+    return FALLBACK_MIME;
+  }
+  try {
+    JSON.parse(text);
+    return 'application/json';
+  } catch {
+    return 'text/plain';
+  }
+};
+
+export const previewKind = (mimeType: string): PreviewKind => {
+  if (PREVIEWABLE_IMAGES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/json' || mimeType.endsWith('+json')) return 'json';
+  if (mimeType.startsWith('text/')) return 'text';
+  return 'download';
+};
+
+export const encodeAttachment = ({ name, mimeType, bytes }: Attachment): Uint8Array => {
+  const nameBytes = truncateUtf8(name);
+  const mimeBytes = encoder.encode(mimeType || FALLBACK_MIME);
+  if (mimeBytes.length > MAX_FIELD_LENGTH) {
+    throw new Error('MIME 类型过长');
+  }
+  const body = new Uint8Array(2 + nameBytes.length + mimeBytes.length + bytes.length);
+  body[0] = nameBytes.length;
+  body.set(nameBytes, 1);
+  body[1 + nameBytes.length] = mimeBytes.length;
+  body.set(mimeBytes, 2 + nameBytes.length);
+  body.set(bytes, 2 + nameBytes.length + mimeBytes.length);
+  return body;
+};
+
+export const decodeAttachment = (body: Uint8Array): Attachment => {
+  const nameLength = body[0] ?? 0;
+  const mimeStart = 2 + nameLength;
+  const mimeLength = body[1 + nameLength];
+  if (mimeLength === undefined || mimeStart + mimeLength > body.length) {
+    throw new Error('附件数据已损坏');
+  }
+  const bytes = body.slice(mimeStart + mimeLength);
+  return {
+    name: decoder.decode(body.slice(1, 1 + nameLength)),
+    mimeType: decoder.decode(body.slice(mimeStart, mimeStart + mimeLength)) || sniffMimeType(bytes),
+    bytes,
+  };
+};
+
+/** 浏览器给出的 type 可能为空（如未知扩展名），此时按内容识别。 */
+export const readFileAttachment = async (file: File): Promise<Attachment> => {
+  if (file.size === 0) {
+    throw new Error('文件为空');
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(
+      `文件过大（${formatBytes(file.size)}），上限 ${formatBytes(MAX_ATTACHMENT_BYTES)}`,
+    );
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return { name: file.name, mimeType: file.type || sniffMimeType(bytes), bytes };
+};
+
+/** 发送前的粗略估算，用于提示；准确数值以节点 estimateGas 为准。 */
+export const estimateAttachmentCost = (byteLength: number) => {
+  const cipherBytes = byteLength + CIPHER_OVERHEAD_BYTES;
+  const frames = Math.max(1, Math.ceil(cipherBytes / DEFAULT_CHUNK_SIZE));
+  let gas = 0n;
+  for (let offset = 0; offset < cipherBytes; offset += DEFAULT_CHUNK_SIZE) {
+    const frameBytes = Math.min(DEFAULT_CHUNK_SIZE, cipherBytes - offset) + FRAME_HEADER_LENGTH;
+    gas += intrinsicGasForTokens(ciphertextTokens(frameBytes));
+  }
+  return { frames, gas };
+};
+
+export const describeAttachment = ({ name, mimeType, bytes }: Attachment): string =>
+  `${name || '未命名文件'}（${mimeType}，${formatBytes(bytes.length)}）`;
@@ -0,0 +1,436 @@
+import { formatEther, getAddress, parseEther } from 'ethers';
+import type { AbstractProvider, Signer, TransactionResponse } from 'ethers';
+import { ContentType, encodeContent, packMessage } from './framing';
+import { TransferMode, encryptorFor } from './messages';
+import { normalizePublicKey } from './ecies';
+import { buildFrameRequests } from './messenger';
+import { TxFees, estimateGasLimit } from './fees';
+import { loadTxHistory } from './txStore';
+import { isUserRejection } from './errors';
+
+/** CSV / JSON 中的一行：key 为空时使用表单中的口令，形如公钥时改用 ECIES。 */
+export type BatchRowInput = {
+  line: number;
+  to: string;
+  message: string;
+  value: string;
+  key: string;
+};
+
+// unknown：nonce 已被占用但找不到对应交易，无法确认是否发出，需人工核实，续发时跳过
+export type BatchRowStatus = 'invalid' | 'pending' | 'sending' | 'sent' | 'failed' | 'unknown';
+
+export type BatchRow = {
+  line: number;
+  to: string;
+  preview: string;
+  valueWei: string;
+  keyKind: 'default' | 'contact' | 'passphrase' | 'public-key';
+  status: BatchRowStatus;
+  // 校验阶段即完成加密与分帧，任务中只保存密文，续发时无需再次提供密钥
+  frames: string[];
+  hashes: string[];
+  pendingNonce: number | null;
+  error?: string;
+};
+
+export type BatchJob = {
+  id: string;
+  chainId: number;
+  from: string;
+  messenger: string | null;
+  createdAt: number;
+  rows: BatchRow[];
+};
+
+export type BatchOptions = {
+  chainId: number;
+  from: string;
+  mode: TransferMode;
+  passphrase: string;
+  contentType: ContentType;
+  compress: boolean;
+  messenger: string | null;
+  // 行内未填写 key 时，先查与收件地址绑定的口令（如密钥保险库）
+  keyForRecipient?: (address: string) => string | undefined;
+};
+
+const STORAGE_PREFIX = 'sepolia-ethers:batch';
+export const MAX_BATCH_ROWS = 200;
+const COLUMNS = ['to', 'message', 'value', 'key'] as const;
+const COLUMN_ALIASES: Record<string, (typeof COLUMNS)[number]> = {
+  to: 'to',
+  address: 'to',
+  recipient: 'to',
+  message: 'message',
+  text: 'message',
+  value: 'value',
+  amount: 'value',
+  key: 'key',
+  passphrase: 'key',
+  publickey: 'key',
+};
+
+const storageKey = (chainId: number) => `${STORAGE_PREFIX}:${chainId}`;
+
+export const loadBatchJob = (chainId: number): BatchJob | null => {
+  const raw = localStorage.getItem(storageKey(chainId));
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as BatchJob;
+    return Array.isArray(parsed?.rows) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveBatchJob = (job: BatchJob) => {
+  localStorage.setItem(storageKey(job.chainId), JSON.stringify(job));
+};
+
+export const clearBatchJob = (chainId: number) => {
+  localStorage.removeItem(storageKey(chainId));
+};
+
+/** RFC 4180 风格：字段可用双引号包裹，引号内允许逗号与换行，"" 表示一个引号。 */
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV 中存在未闭合的引号');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((item) => item.some((cell) => cell.trim() !== ''));
+};
+
+const parseCsv = (text: string): BatchRowInput[] => {
+  const records = parseCsvRecords(text);
+  const header = records[0]?.map((cell) => COLUMN_ALIASES[cell.trim().toLowerCase()]);
+  // 没有表头时按 to,message,value,key 的顺序读取
+  const hasHeader = !!header?.includes('to');
+  const columns = hasHeader ? header : [...COLUMNS];
+  return records.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const row: BatchRowInput = { line, to: '', message: '', value: '', key: '' };
+    cells.forEach((cell, column) => {
+      const name = columns[column];
+      if (name) row[name] = name === 'message' ? cell : cell.trim();
+    });
+    return row;
+  });
+};
+
+const parseJson = (text: string): BatchRowInput[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('JSON 格式错误');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('JSON 需为数组，每项包含 to、message，可选 value、key');
+  }
+  return parsed.map((item, index) => {
+    const row: BatchRowInput = { line: index + 1, to: '', message: '', value: '', key: '' };
+    if (item && typeof item === 'object') {
+      Object.entries(item as Record<string, unknown>).forEach(([field, cell]) => {
+        const name = COLUMN_ALIASES[field.toLowerCase()];
+        if (name && cell !== null && cell !== undefined) row[name] = String(cell);
+      });
+    }
+    return row;
+  });
+};
+
+/** 以 [ 开头按 JSON 读取，否则按 CSV 读取。 */
+export const parseBatchInput = (text: string): BatchRowInput[] => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('请粘贴或导入收件人列表');
+  }
+  const rows = trimmed.startsWith('[') ? parseJson(trimmed) : parseCsv(trimmed);
+  if (rows.length === 0) {
+    throw new Error('收件人列表为空');
+  }
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`单个批次最多 ${MAX_BATCH_ROWS} 行`);
+  }
+  return rows;
+};
+
+const isPublicKey = (key: string) => {
+  try {
+    normalizePublicKey(key);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const prepareRow = async (input: BatchRowInput, options: BatchOptions): Promise<BatchRow> => {
+  const row: BatchRow = {
+    line: input.line,
+    to: input.to,
+    preview: input.message,
+    valueWei: '0',
+    keyKind: 'default',
+    status: 'pending',
+    frames: [],
+    hashes: [],
+    pendingNonce: null,
+  };
+  try {
+    try {
+      row.to = getAddress(input.to);
+    } catch {
+      throw new Error('收件地址无效');
+    }
+    if (!input.message) {
+      throw new Error('消息为空');
+    }
+    let value: bigint;
+    try {
+      value = input.value ? parseEther(input.value) : 0n;
+    } catch {
+      throw new Error('金额格式错误');
+    }
+    if (value < 0n) {
+      throw new Error('金额不能为负数');
+    }
+    if (options.messenger && value > 0n) {
+      throw new Error('Messenger 合约模式不支持附带 ETH');
+    }
+    row.valueWei = value.toString();
+
+    let mode = options.mode;
+    let key = options.passphrase;
+    const contactKey = options.keyForRecipient?.(row.to);
+    if (input.key) {
+      row.keyKind = isPublicKey(input.key) ? 'public-key' : 'passphrase';
+      mode = row.keyKind === 'public-key' ? 'ecies' : mode === 'ecies' ? 'aes-gcm' : mode;
+      key = input.key;
+    } else if (mode === 'ecies') {
+      throw new Error('ECIES 模式下每行都需要填写接收方公钥');
+    } else if (contactKey) {
+      row.keyKind = 'contact';
+      key = contactKey;
+    } else if (!key) {
+      throw new Error('缺少加密口令');
+    }
+    row.frames = await packMessage({
+      body: encodeContent(input.message, options.contentType),
+      contentType: options.contentType,
+      compress: options.compress,
+      encrypt: encryptorFor(mode, key),
+    });
+  } catch (err) {
+    row.status = 'invalid';
+    row.error = err instanceof Error ? err.message : '校验失败';
+  }
+  return row;
+};
+
+/** 逐行校验地址、金额与密钥并完成加密；存在 invalid 行时不应开始发送。 */
+export const prepareBatch = async (
+  inputs: BatchRowInput[],
+  options: BatchOptions,
+): Promise<BatchJob> => {
+  const rows: BatchRow[] = [];
+  for (const input of inputs) {
+    rows.push(await prepareRow(input, options));
+  }
+  return {
+    id: crypto.randomUUID(),
+    chainId: options.chainId,
+    from: getAddress(options.from),
+    messenger: options.messenger ? getAddress(options.messenger) : null,
+    createdAt: Date.now(),
+    rows,
+  };
+};
+
+export const summarizeBatch = (job: BatchJob) => {
+  const count = (status: BatchRowStatus) => job.rows.filter((row) => row.status === status).length;
+  return {
+    total: job.rows.length,
+    invalid: count('invalid'),
+    sent: count('sent'),
+    failed: count('failed'),
+    unknown: count('unknown'),
+    remaining: count('pending') + count('sending') + count('failed'),
+    totalValue: formatEther(job.rows.reduce((sum, row) => sum + BigInt(row.valueWei), 0n)),
+    transactions: job.rows.reduce((sum, row) => sum + row.frames.length, 0),
+  };
+};
+
+const patchRow = (job: BatchJob, index: number, patch: Partial<BatchRow>): BatchJob => ({
+  ...job,
+  rows: job.rows.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+});
+
+/**
+ * 中断时可能有一段交易已广播但没来得及记下哈希。若账户的 pending nonce 已越过记录的
+ * nonce，从交易记录里找回同 nonce、同 data 的交易作为该段哈希；找不到时无法确认该段
+ * 是否发出，标记为 unknown 交给用户核实，续发时跳过，避免重复发送。
+ */
+const reconcileBatch = async (job: BatchJob, provider: AbstractProvider): Promise<BatchJob> => {
+  if (!job.rows.some((row) => row.pendingNonce !== null)) {
+    return job;
+  }
+  const nextNonce = await provider.getTransactionCount(job.from, 'pending');
+  const history = loadTxHistory(job.chainId);
+  let next = job;
+  job.rows.forEach((row, index) => {
+    if (row.pendingNonce === null) return;
+    if (row.pendingNonce >= nextNonce) {
+      next = patchRow(next, index, { pendingNonce: null });
+      return;
+    }
+    const frame = row.hashes.length;
+    const { request } = buildFrameRequests(row.to, row.frames, BigInt(row.valueWei), job.messenger)[
+      frame
+    ];
+    const record = history.find(
+      (item) =>
+        item.nonce === row.pendingNonce && item.from.toLowerCase() === job.from.toLowerCase(),
+    );
+    // 交易记录里同 nonce 的是别的交易，说明这一段并未发出
+    if (record && record.data !== request.data) {
+      next = patchRow(next, index, { pendingNonce: null });
+      return;
+    }
+    if (!record) {
+      next = patchRow(next, index, {
+        pendingNonce: null,
+        status: 'unknown',
+        error: `nonce ${row.pendingNonce} 已被占用，但交易记录中找不到对应交易，请在区块浏览器核实是否已发送`,
+      });
+      return;
+    }
+    const hashes = [...row.hashes, record.hash];
+    next = patchRow(next, index, {
+      hashes,
+      pendingNonce: null,
+      status: hashes.length === row.frames.length ? 'sent' : row.status,
+    });
+  });
+  return next;
+};
+
+export type RunBatchOptions = {
+  signer: Signer;
+  provider: AbstractProvider;
+  fees: TxFees;
+  gasLimitOverride: bigint | null;
+  shouldStop: () => boolean;
+  onUpdate: (job: BatchJob) => void;
+  onSent: (tx: TransactionResponse, row: BatchRow, frameIndex: number) => void;
+};
+
+/**
+ * 按顺序发送未完成的行，nonce 由本地显式递增，不依赖钱包对连续交易的处理。
+ * 每段发送前后都把任务写入 localStorage，页面关闭后可调用同一函数续发。
+ * 用户在钱包中拒绝签名时整个批次暂停，其他错误只标记当前行失败并继续。
+ */
+export const runBatch = async (
+  initial: BatchJob,
+  { signer, provider, fees, gasLimitOverride, shouldStop, onUpdate, onSent }: RunBatchOptions,
+): Promise<BatchJob> => {
+  const signerAddress = await signer.getAddress();
+  if (getAddress(signerAddress) !== initial.from) {
+    throw new Error(`该批次由 ${initial.from} 创建，请切换到该账户后继续`);
+  }
+  if (initial.rows.some((row) => row.status === 'invalid')) {
+    throw new Error('存在未通过校验的行，请修正后重新生成批次');
+  }
+
+  let job = await reconcileBatch(initial, provider);
+  const commit = (next: BatchJob) => {
+    job = next;
+    saveBatchJob(job);
+    onUpdate(job);
+  };
+  commit(job);
+
+  let nonce = await provider.getTransactionCount(job.from, 'pending');
+  for (let index = 0; index < job.rows.length; index += 1) {
+    if (job.rows[index].status === 'sent' || job.rows[index].status === 'unknown') continue;
+    if (shouldStop()) break;
+    commit(patchRow(job, index, { status: 'sending', error: undefined }));
+
+    const row = job.rows[index];
+    const requests = buildFrameRequests(row.to, row.frames, BigInt(row.valueWei), job.messenger);
+    try {
+      for (let frame = row.hashes.length; frame < requests.length; frame += 1) {
+        if (shouldStop()) break;
+        const { request, payloadBytes } = requests[frame];
+        const gasLimit =
+          gasLimitOverride ??
+          (await estimateGasLimit(provider, { ...request, from: job.from }, payloadBytes)).gasLimit;
+        commit(patchRow(job, index, { pendingNonce: nonce }));
+        const tx = await signer.sendTransaction({ ...request, nonce, gasLimit, ...fees });
+        nonce = tx.nonce + 1;
+        const hashes = [...job.rows[index].hashes, tx.hash];
+        commit(
+          patchRow(job, index, {
+            hashes,
+            pendingNonce: null,
+            status: hashes.length === requests.length ? 'sent' : 'sending',
+          }),
+        );
+        onSent(tx, job.rows[index], frame);
+      }
+    } catch (err) {
+      const rejected = isUserRejection(err);
+      // 拒绝签名一定没有广播；其他错误（如超时）不确定，保留 pendingNonce 交给续发时核对
+      commit(
+        patchRow(job, index, {
+          status: rejected ? 'pending' : 'failed',
+          pendingNonce: rejected ? null : job.rows[index].pendingNonce,
+          error: rejected ? undefined : err instanceof Error ? err.message : '发送失败',
+        }),
+      );
+      if (rejected) break;
+      job = await reconcileBatch(job, provider);
+      commit(job);
+      nonce = await provider.getTransactionCount(job.from, 'pending');
+    }
+    if (job.rows[index].status === 'sending') {
+      commit(patchRow(job, index, { status: 'pending' }));
+    }
+  }
+  return job;
+};
@@ -0,0 +1,140 @@
+import type { AbstractProvider, Block } from 'ethers';
+
+export type BlockUpdate = {
+  blockNumber: number;
+  baseFeePerGas: bigint | null;
+  timestamp: number;
+};
+
+export type IncomingTx = {
+  hash: string;
+  from: string;
+  valueWei: bigint;
+  blockNumber: number;
+  hasData: boolean;
+};
+
+export type WatchSource = 'subscription' | 'polling';
+
+export type ChainWatcherOptions = {
+  address?: string;
+  onBlock: (update: BlockUpdate) => void;
+  onBalance?: (balanceWei: bigint) => void;
+  onIncoming?: (txs: IncomingTx[]) => void;
+  onSourceChange?: (source: WatchSource) => void;
+  onError?: (err: unknown) => void;
+  pollInterval?: number;
+};
+
+const DEFAULT_POLL_INTERVAL = 15_000;
+// 断线重连后最多回补这么多个区块的入账检测，避免一次拉取过多区块
+const MAX_CATCH_UP_BLOCKS = 10;
+
+const incomingFrom = (block: Block, address: string): IncomingTx[] => {
+  const target = address.toLowerCase();
+  return block.prefetchedTransactions
+    .filter((tx) => tx.to?.toLowerCase() === target)
+    .map((tx) => ({
+      hash: tx.hash,
+      from: tx.from,
+      valueWei: tx.value,
+      blockNumber: block.number,
+      hasData: tx.data !== '0x',
+    }));
+};
+
+/**
+ * 订阅新区块：优先使用 provider.on('block')，若一个轮询周期内没有收到事件则自行轮询
+ * getBlockNumber。每个新区块刷新 baseFee 与余额，并检查发往 address 的交易。
+ * 返回的函数会移除监听与定时器，必须在 provider 被替换或组件卸载时调用。
+ */
+export const watchChain = (
+  provider: AbstractProvider,
+  {
+    address,
+    onBlock,
+    onBalance,
+    onIncoming,
+    onSourceChange,
+    onError,
+    pollInterval = DEFAULT_POLL_INTERVAL,
+  }: ChainWatcherOptions,
+): (() => void) => {
+  let stopped = false;
+  let lastBlock: number | null = null;
+  let lastEventAt = Date.now();
+  let source: WatchSource = 'subscription';
+  let queue = Promise.resolve();
+
+  const setSource = (next: WatchSource) => {
+    if (source !== next) {
+      source = next;
+      onSourceChange?.(next);
+    }
+  };
+
+  const processBlock = async (blockNumber: number) => {
+    if (stopped || (lastBlock !== null && blockNumber <= lastBlock)) return;
+    const from =
+      lastBlock === null ? blockNumber : Math.max(lastBlock + 1, blockNumber - MAX_CATCH_UP_BLOCKS + 1);
+    lastBlock = blockNumber;
+    const withTxs = !!address && !!onIncoming;
+    const blocks = await Promise.all(
+      Array.from({ length: blockNumber - from + 1 }, (_, i) => provider.getBlock(from + i, withTxs)),
+    );
+    if (stopped) return;
+    const latest = blocks[blocks.length - 1];
+    if (latest) {
+      onBlock({
+        blockNumber: latest.number,
+        baseFeePerGas: latest.baseFeePerGas,
+        timestamp: latest.timestamp,
+      });
+    }
+    if (address && onIncoming) {
+      const incoming = blocks.flatMap((block) => (block ? incomingFrom(block, address) : []));
+      if (incoming.length > 0) onIncoming(incoming);
+    }
+    if (address && onBalance) {
+      const balance = await provider.getBalance(address, blockNumber);
+      if (!stopped) onBalance(balance);
+    }
+  };
+
+  // 事件与轮询可能同时触发，串行处理保证区块按顺序、只处理一次
+  const enqueue = (blockNumber: number) => {
+    queue = queue.then(() => processBlock(blockNumber)).catch((err) => {
+      if (!stopped) onError?.(err);
+    });
+  };
+
+  const handleBlock = (blockNumber: number) => {
+    lastEventAt = Date.now();
+    setSource('subscription');
+    enqueue(blockNumber);
+  };
+
+  const poll = async () => {
+    if (Date.now() - lastEventAt < pollInterval) return;
+    try {
+      const blockNumber = await provider.getBlockNumber();
+      if (stopped) return;
+      setSource('polling');
+      enqueue(blockNumber);
+    } catch (err) {
+      if (!stopped) onError?.(err);
+    }
+  };
+
+  provider.getBlockNumber().then(enqueue, (err) => {
+    if (!stopped) onError?.(err);
+  });
+  provider.on('block', handleBlock).catch(() => setSource('polling'));
+  const timer = setInterval(poll, pollInterval);
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+    void provider.off('block', handleBlock);
+  };
+};
@@ -0,0 +1,276 @@
+import { Interface, Result, getAddress, isHexString } from 'ethers';
+import type {
+  AbstractProvider,
+  FunctionFragment,
+  Log,
+  ParamType,
+  TransactionRequest,
+} from 'ethers';
+
+export type SavedContract = {
+  chainId: number;
+  address: string;
+  name: string;
+  abi: string;
+};
+
+export type DecodedEvent = {
+  logIndex: number;
+  address: string;
+  name: string;
+  signature: string;
+  args: unknown;
+};
+
+const STORAGE_PREFIX = 'sepolia-ethers:contracts';
+
+const storageKey = (chainId: number) => `${STORAGE_PREFIX}:${chainId}`;
+
+export const loadSavedContracts = (chainId: number): SavedContract[] => {
+  const raw = localStorage.getItem(storageKey(chainId));
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as SavedContract[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** 同一地址重复保存时覆盖名称与 ABI。 */
+export const saveContract = (contract: SavedContract): SavedContract[] => {
+  const address = getAddress(contract.address);
+  const next = [
+    ...loadSavedContracts(contract.chainId).filter((item) => item.address !== address),
+    { ...contract, address },
+  ];
+  localStorage.setItem(storageKey(contract.chainId), JSON.stringify(next));
+  return next;
+};
+
+export const removeSavedContract = (chainId: number, address: string): SavedContract[] => {
+  const next = loadSavedContracts(chainId).filter((item) => item.address !== address);
+  localStorage.setItem(storageKey(chainId), JSON.stringify(next));
+  return next;
+};
+
+/**
+ * 支持三种输入：JSON ABI 数组、带 abi 字段的编译产物（Hardhat / Foundry），
+ * 以及每行一条的 human-readable ABI。
+ */
+export const parseAbi = (text: string): Interface => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('请填写 ABI');
+  }
+  let fragments: unknown;
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      fragments = Array.isArray(parsed) ? parsed : parsed.abi;
+    } catch {
+      throw new Error('ABI 不是合法的 JSON');
+    }
+    if (!Array.isArray(fragments)) {
+      throw new Error('JSON 中没有找到 ABI 数组');
+    }
+  } else {
+    fragments = trimmed
+      .split('\n')
+      .map((line) => line.trim().replace(/^['"`]|['"`],?$/g, ''))
+      .filter(Boolean);
+  }
+  try {
+    return new Interface(fragments as string[]);
+  } catch (err) {
+    throw new Error(`无法解析 ABI：${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+export const isReadFunction = (fragment: FunctionFragment) =>
+  fragment.stateMutability === 'view' || fragment.stateMutability === 'pure';
+
+export const listFunctions = (iface: Interface) => {
+  const functions: FunctionFragment[] = [];
+  iface.forEachFunction((fragment) => functions.push(fragment));
+  functions.sort((a, b) => a.name.localeCompare(b.name));
+  return {
+    read: functions.filter(isReadFunction),
+    write: functions.filter((fragment) => !isReadFunction(fragment)),
+  };
+};
+
+/** 表单占位提示，让用户知道每种类型该怎么填。 */
+export const paramPlaceholder = (param: ParamType): string => {
+  if (param.isArray() || param.isTuple()) return 'JSON，例如 ["0x...", 1]';
+  if (param.baseType === 'address') return '0x 开头地址';
+  if (param.baseType === 'bool') return 'true / false';
+  if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) return '整数';
+  if (param.baseType.startsWith('bytes')) return '0x 开头的 16 进制';
+  return '文本';
+};
+
+const coerceValue = (param: ParamType, value: unknown, label: string): unknown => {
+  if (param.isArray()) {
+    if (!Array.isArray(value)) throw new Error(`${label} 需要数组`);
+    if (param.arrayLength >= 0 && value.length !== param.arrayLength) {
+      throw new Error(`${label} 需要 ${param.arrayLength} 个元素`);
+    }
+    return value.map((item, index) => coerceValue(param.arrayChildren, item, `${label}[${index}]`));
+  }
+  if (param.isTuple()) {
+    const items = Array.isArray(value)
+      ? value
+      : value && typeof value === 'object'
+        ? param.components.map((component) => (value as Record<string, unknown>)[component.name])
+        : null;
+    if (!items || items.length !== param.components.length) {
+      throw new Error(`${label} 需要 ${param.components.length} 个字段`);
+    }
+    return param.components.map((component, index) =>
+      coerceValue(component, items[index], `${label}.${component.name || index}`),
+    );
+  }
+  const text = typeof value === 'string' ? value.trim() : String(value);
+  if (param.baseType === 'address') {
+    try {
+      return getAddress(text);
+    } catch {
+      throw new Error(`${label} 不是合法地址`);
+    }
+  }
+  if (param.baseType === 'bool') {
+    if (text !== 'true' && text !== 'false') throw new Error(`${label} 需要 true 或 false`);
+    return text === 'true';
+  }
+  if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+    if (!/^-?\d+$/.test(text) && !/^0x[0-9a-fA-F]+$/.test(text)) {
+      throw new Error(`${label} 需要整数`);
+    }
+    return BigInt(text);
+  }
+  if (param.baseType.startsWith('bytes')) {
+    if (!isHexString(text)) throw new Error(`${label} 需要 0x 开头的 16 进制`);
+    return text;
+  }
+  return typeof value === 'string' ? value : text;
+};
+
+/** 按 ABI 参数类型把表单里的字符串转成 ethers 需要的值，数组与元组按 JSON 解析。 */
+export const parseArguments = (fragment: FunctionFragment, rawValues: string[]): unknown[] =>
+  fragment.inputs.map((param, index) => {
+    const raw = rawValues[index] ?? '';
+    const label = param.name || `参数 ${index + 1}`;
+    if (param.isArray() || param.isTuple()) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        throw new Error(`${label} 需要 JSON 格式`);
+      }
+      return coerceValue(param, parsed, label);
+    }
+    return coerceValue(param, raw, label);
+  });
+
+/** Result 转为可 JSON 序列化的结构：bigint 转字符串，有字段名的元组转对象。 */
+export const toPlain = (value: unknown): unknown => {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Result) {
+    const items = value.toArray().map(toPlain);
+    let keys: (string | null)[] = [];
+    try {
+      keys = Object.keys(value.toObject());
+    } catch {
+      keys = [];
+    }
+    if (keys.length === items.length && keys.every((key) => key && !/^\d+$/.test(key))) {
+      return Object.fromEntries(keys.map((key, index) => [key, items[index]]));
+    }
+    return items;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  return value;
+};
+
+export const formatResult = (value: unknown) => JSON.stringify(toPlain(value), null, 2);
+
+/** 从报错里取出 revert data，按 ABI 中的自定义错误解码。 */
+export const describeRevert = (iface: Interface, err: unknown): string => {
+  const { data, shortMessage, reason } = err as {
+    data?: string;
+    shortMessage?: string;
+    reason?: string;
+  };
+  if (data && isHexString(data) && data.length >= 10) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return `${parsed.name}(${parsed.args.map((arg) => JSON.stringify(toPlain(arg))).join(', ')})`;
+      }
+    } catch {
+      return `无法按 ABI 解码的 revert data ${data}`;
+    }
+  }
+  return reason ?? shortMessage ?? (err instanceof Error ? err.message : '调用失败');
+};
+
+export const callReadFunction = async (
+  provider: AbstractProvider,
+  address: string,
+  iface: Interface,
+  fragment: FunctionFragment,
+  args: unknown[],
+  from?: string,
+): Promise<Result> => {
+  const data = iface.encodeFunctionData(fragment, args);
+  let raw: string;
+  try {
+    raw = await provider.call({ to: address, data, from: from || undefined });
+  } catch (err) {
+    throw new Error(`调用被回滚：${describeRevert(iface, err)}`);
+  }
+  if (raw === '0x' && fragment.outputs.length > 0) {
+    throw new Error('调用没有返回数据，请确认地址上部署的是该合约');
+  }
+  return iface.decodeFunctionResult(fragment, raw);
+};
+
+export const buildWriteRequest = (
+  address: string,
+  iface: Interface,
+  fragment: FunctionFragment,
+  args: unknown[],
+  value: bigint,
+): TransactionRequest & { data: string } => {
+  if (value > 0n && !fragment.payable) {
+    throw new Error(`${fragment.name} 不是 payable 函数，不能附带 ETH`);
+  }
+  return { to: getAddress(address), value, data: iface.encodeFunctionData(fragment, args) };
+};
+
+/** 只解码 ABI 中声明过的事件，其余日志跳过。 */
+export const decodeEvents = (iface: Interface, logs: readonly Log[]): DecodedEvent[] =>
+  logs.flatMap((log) => {
+    try {
+      const parsed = iface.parseLog(log);
+      if (!parsed) return [];
+      return [
+        {
+          logIndex: log.index,
+          address: log.address,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: toPlain(parsed.args),
+        },
+      ];
+    } catch {
+      return [];
+    }
+  });
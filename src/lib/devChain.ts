@@ -0,0 +1,89 @@
+import { JsonRpcProvider, Network, getAddress, parseEther, toQuantity } from 'ethers';
+import type { JsonRpcApiProvider } from 'ethers';
+import { LOCAL_CHAIN_ID } from './networks';
+
+export type DevNodeKind = 'anvil' | 'hardhat';
+
+export type DevNode = {
+  provider: JsonRpcProvider;
+  kind: DevNodeKind;
+  chainId: number;
+  clientVersion: string;
+  rpcUrl: string;
+};
+
+export type DevSnapshot = {
+  id: string;
+  blockNumber: number;
+  createdAt: number;
+};
+
+export const DEFAULT_FUND_ETH = '100';
+
+export const detectDevNodeKind = (clientVersion: string): DevNodeKind | null => {
+  if (/anvil/i.test(clientVersion)) return 'anvil';
+  if (/hardhat/i.test(clientVersion)) return 'hardhat';
+  return null;
+};
+
+/**
+ * 连接本地开发节点：先用固定网络的临时 Provider 读取 eth_chainId（节点未启动时立即失败，
+ * 不会像自动探测那样无限重试），再以实际链 ID 创建 staticNetwork 的 JsonRpcProvider。
+ */
+export const connectDevNode = async (rpcUrl: string): Promise<DevNode> => {
+  const url = rpcUrl.trim();
+  const probeNetwork = Network.from(LOCAL_CHAIN_ID);
+  const probe = new JsonRpcProvider(url, probeNetwork, { staticNetwork: probeNetwork });
+  let chainId: number;
+  try {
+    chainId = Number(await probe.send('eth_chainId', []));
+  } catch {
+    throw new Error(`无法连接 ${url}，请确认已启动 anvil 或 npx hardhat node`);
+  } finally {
+    probe.destroy();
+  }
+  const network = Network.from(chainId);
+  const provider = new JsonRpcProvider(url, network, { staticNetwork: network });
+  const clientVersion: string = await provider.send('web3_clientVersion', []).catch(() => '');
+  const kind = detectDevNodeKind(clientVersion);
+  if (!kind) {
+    provider.destroy();
+    throw new Error(`${clientVersion || '该节点'} 不是 Anvil / Hardhat，不支持开发调试接口`);
+  }
+  return { provider, kind, chainId, clientVersion, rpcUrl: url };
+};
+
+/** 节点自带的已解锁账户，可直接通过 JsonRpcSigner 签名。 */
+export const listDevAccounts = async (provider: JsonRpcApiProvider): Promise<string[]> => {
+  const accounts: string[] = await provider.send('eth_accounts', []);
+  return accounts.map((account) => getAddress(account));
+};
+
+export const fundAccount = async ({ provider, kind }: DevNode, address: string, amountEth: string) => {
+  const wei = parseEther(amountEth.trim() || DEFAULT_FUND_ETH);
+  await provider.send(`${kind}_setBalance`, [getAddress(address), toQuantity(wei)]);
+  return wei;
+};
+
+export const mineBlocks = async ({ provider, kind }: DevNode, blocks: number) => {
+  if (!Number.isInteger(blocks) || blocks < 1) {
+    throw new Error('出块数量必须是正整数');
+  }
+  await provider.send(`${kind}_mine`, [toQuantity(blocks)]);
+};
+
+export const takeSnapshot = async ({ provider }: DevNode): Promise<DevSnapshot> => {
+  const [id, blockNumber] = await Promise.all([
+    provider.send('evm_snapshot', []) as Promise<string>,
+    provider.getBlockNumber(),
+  ]);
+  return { id, blockNumber, createdAt: Date.now() };
+};
+
+/** evm_revert 成功后节点会删除该快照及其之后的快照，需要再次回滚时要重新拍摄。 */
+export const revertSnapshot = async ({ provider }: DevNode, snapshot: DevSnapshot) => {
+  const reverted: boolean = await provider.send('evm_revert', [snapshot.id]);
+  if (!reverted) {
+    throw new Error(`快照 ${snapshot.id} 已失效（节点重启或已回滚过）`);
+  }
+};
@@ -0,0 +1,167 @@
+import {
+  SigningKey,
+  Transaction,
+  computeAddress,
+  getAddress,
+  getBytes,
+  hexlify,
+  randomBytes,
+} from 'ethers';
+import type { Provider } from 'ethers';
+import { ECIES_ALGORITHM_ID, ENVELOPE_MAGIC, ENVELOPE_VERSION } from './hexCipher';
+
+// ECIES 信封：magic(1) | version(1) | algorithm(1) | 临时公钥(33) | nonce(12) | ciphertext | tag(16)
+const EPHEMERAL_KEY_LENGTH = 33;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = 3 + EPHEMERAL_KEY_LENGTH + NONCE_LENGTH;
+const HKDF_INFO = new TextEncoder().encode('sepolia-ethers/ecies/v1');
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export type RecoveredPublicKey = {
+  address: string;
+  publicKey: string;
+  txHash: string;
+};
+
+export const normalizePublicKey = (publicKey: string): string => {
+  try {
+    return SigningKey.computePublicKey(publicKey.trim(), true);
+  } catch {
+    throw new Error('请输入合法的 secp256k1 公钥');
+  }
+};
+
+/**
+ * 从接收方签过的任意一笔交易中恢复其 secp256k1 公钥，并校验恢复出的地址与 from 一致。
+ */
+export const recoverPublicKeyFromTx = async (
+  provider: Provider,
+  txHash: string,
+  expectedAddress?: string,
+): Promise<RecoveredPublicKey> => {
+  const tx = await provider.getTransaction(txHash.trim());
+  if (!tx) {
+    throw new Error('未找到交易');
+  }
+  const signed = Transaction.from(tx);
+  if (!signed.signature) {
+    throw new Error('交易缺少签名，无法恢复公钥');
+  }
+  const publicKey = SigningKey.recoverPublicKey(signed.unsignedHash, signed.signature);
+  const address = computeAddress(publicKey);
+  if (address !== getAddress(tx.from)) {
+    throw new Error('恢复出的公钥与交易发送方不一致');
+  }
+  if (expectedAddress && address !== getAddress(expectedAddress)) {
+    throw new Error(`该交易由 ${address} 签名，而不是接收方地址`);
+  }
+  return { address, publicKey: SigningKey.computePublicKey(publicKey, true), txHash: tx.hash };
+};
+
+const deriveAesKey = async (
+  sharedSecret: string,
+  ephemeralPublicKey: Uint8Array,
+  usage: KeyUsage,
+): Promise<CryptoKey> => {
+  // computeSharedSecret 返回未压缩点 0x04 | x | y，取 x 坐标作为 ECDH 共享密钥
+  const sharedX = getBytes(sharedSecret).slice(1, 33);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedX, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(ephemeralPublicKey), info: HKDF_INFO },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage],
+  );
+};
+
+export const encryptBytesForPublicKey = async (
+  plainBytes: Uint8Array,
+  publicKey: string,
+): Promise<Uint8Array> => {
+  if (plainBytes.length === 0) {
+    throw new Error('待加密内容不能为空');
+  }
+  const recipientKey = normalizePublicKey(publicKey);
+  const ephemeral = new SigningKey(randomBytes(32));
+  const ephemeralPublicKey = getBytes(ephemeral.compressedPublicKey);
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const aesKey = await deriveAesKey(
+    ephemeral.computeSharedSecret(recipientKey),
+    ephemeralPublicKey,
+    'encrypt',
+  );
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, new Uint8Array(plainBytes)),
+  );
+
+  const envelope = new Uint8Array(HEADER_LENGTH + sealed.length);
+  envelope.set([ENVELOPE_MAGIC, ENVELOPE_VERSION, ECIES_ALGORITHM_ID]);
+  envelope.set(ephemeralPublicKey, 3);
+  envelope.set(nonce, 3 + EPHEMERAL_KEY_LENGTH);
+  envelope.set(sealed, HEADER_LENGTH);
+  return envelope;
+};
+
+export const encryptTextForPublicKey = async (text: string, publicKey: string): Promise<string> => {
+  if (!text) {
+    throw new Error('待加密文本不能为空');
+  }
+  return hexlify(await encryptBytesForPublicKey(encoder.encode(text), publicKey));
+};
+
+const isEciesEnvelope = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_LENGTH + TAG_LENGTH &&
+  bytes[0] === ENVELOPE_MAGIC &&
+  bytes[2] === ECIES_ALGORITHM_ID;
+
+export const isEciesPayload = (cipherHex: string): boolean => {
+  try {
+    return isEciesEnvelope(getBytes(cipherHex));
+  } catch {
+    return false;
+  }
+};
+
+const buildSigningKey = (privateKey: string): SigningKey => {
+  const trimmed = privateKey.trim();
+  try {
+    return new SigningKey(trimmed.startsWith('0x') ? trimmed : `0x${trimmed}`);
+  } catch {
+    throw new Error('请输入合法的私钥');
+  }
+};
+
+export const decryptBytesWithPrivateKey = async (
+  cipherBytes: Uint8Array,
+  privateKey: string,
+): Promise<Uint8Array> => {
+  if (!isEciesEnvelope(cipherBytes)) {
+    throw new Error('不是 ECIES 公钥加密的数据');
+  }
+  if (cipherBytes[1] !== ENVELOPE_VERSION) {
+    throw new Error(`不支持的信封版本: ${cipherBytes[1]}`);
+  }
+  const signingKey = buildSigningKey(privateKey);
+  const ephemeralPublicKey = cipherBytes.slice(3, 3 + EPHEMERAL_KEY_LENGTH);
+  const nonce = cipherBytes.slice(3 + EPHEMERAL_KEY_LENGTH, HEADER_LENGTH);
+  const sealed = cipherBytes.slice(HEADER_LENGTH);
+  const aesKey = await deriveAesKey(
+    signingKey.computeSharedSecret(ephemeralPublicKey),
+    ephemeralPublicKey,
+    'decrypt',
+  );
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, sealed),
+    );
+  } catch {
+    throw new Error('解密失败：私钥不匹配或密文已被篡改');
+  }
+};
+
+export const decryptWithPrivateKey = async (cipherHex: string, privateKey: string): Promise<string> =>
+  decoder.decode(await decryptBytesWithPrivateKey(getBytes(cipherHex), privateKey));
@@ -0,0 +1,26 @@
+export type Unsubscribe = () => void;
+
+export type Emitter<Events extends Record<string, unknown>> = {
+  on: <K extends keyof Events>(event: K, handler: (payload: Events[K]) => void) => Unsubscribe;
+  emit: <K extends keyof Events>(event: K, payload: Events[K]) => void;
+  clear: () => void;
+};
+
+/** 极简的类型化事件分发，供无界面的核心模块对外推送状态。 */
+export const createEmitter = <Events extends Record<string, unknown>>(): Emitter<Events> => {
+  const handlers = new Map<keyof Events, Set<(payload: never) => void>>();
+  return {
+    on: (event, handler) => {
+      const set = handlers.get(event) ?? new Set();
+      set.add(handler as (payload: never) => void);
+      handlers.set(event, set);
+      return () => {
+        set.delete(handler as (payload: never) => void);
+      };
+    },
+    emit: (event, payload) => {
+      handlers.get(event)?.forEach((handler) => (handler as (value: typeof payload) => void)(payload));
+    },
+    clear: () => handlers.clear(),
+  };
+};
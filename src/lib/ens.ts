@@ -0,0 +1,83 @@
+import { EnsResolver, getAddress, isAddress } from 'ethers';
+import type { AbstractProvider } from 'ethers';
+
+/** 部署了 ENS 注册表的网络：主网与 Sepolia。 */
+export const ENS_CHAIN_IDS = new Set([1, 11155111]);
+
+export type EnsProfile = {
+  address: string;
+  // 反向记录声明的名称，未经正向校验
+  name: string | null;
+  // name 的正向解析结果，与 address 一致时 verified 为 true
+  forwardAddress: string | null;
+  verified: boolean;
+  avatar: string | null;
+};
+
+const profileCache = new Map<string, Promise<EnsProfile>>();
+
+export const supportsEns = (chainId: number | null) => chainId !== null && ENS_CHAIN_IDS.has(chainId);
+
+export const looksLikeEnsName = (input: string) =>
+  /^[^\s./]+(\.[^\s./]+)+$/.test(input.trim()) && !isAddress(input.trim());
+
+/** 收款地址输入框：接受 0x 地址，或在支持 ENS 的网络上接受 alice.eth 这类名称。 */
+export const resolveRecipient = async (
+  provider: AbstractProvider | null,
+  chainId: number | null,
+  input: string,
+): Promise<string> => {
+  const trimmed = input.trim();
+  if (isAddress(trimmed)) {
+    return getAddress(trimmed);
+  }
+  if (!looksLikeEnsName(trimmed)) {
+    throw new Error('请输入合法的地址或 ENS 名称');
+  }
+  if (!supportsEns(chainId)) {
+    throw new Error('当前网络不支持 ENS，请直接填写地址');
+  }
+  if (!provider) {
+    throw new Error('请先连接钱包或选择网络后再解析 ENS 名称');
+  }
+  const resolved = await provider.resolveName(trimmed);
+  if (!resolved) {
+    throw new Error(`${trimmed} 没有设置地址记录`);
+  }
+  return resolved;
+};
+
+const fetchProfile = async (provider: AbstractProvider, address: string): Promise<EnsProfile> => {
+  // 不用 provider.lookupAddress：它在正反记录不一致时直接返回 null，无法提示用户
+  const reverseName = `${address.slice(2).toLowerCase()}.addr.reverse`;
+  const reverse = await EnsResolver.fromName(provider, reverseName);
+  const name = reverse ? await reverse.getName() : null;
+  if (!name) {
+    return { address, name: null, forwardAddress: null, verified: false, avatar: null };
+  }
+  const forwardAddress = await provider.resolveName(name);
+  const verified = forwardAddress === address;
+  const avatar = verified ? await provider.getAvatar(name).catch(() => null) : null;
+  return { address, name, forwardAddress, verified, avatar };
+};
+
+/**
+ * 反向解析地址的主名称并做正向校验，只有校验通过才读取头像。
+ * 结果按链缓存在内存中，同一页面内重复展示同一地址不会重复请求。
+ */
+export const lookupEnsProfile = (
+  provider: AbstractProvider,
+  chainId: number,
+  address: string,
+): Promise<EnsProfile> => {
+  const checksummed = getAddress(address);
+  const key = `${chainId}:${checksummed}`;
+  const cached = profileCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const pending = fetchProfile(provider, checksummed);
+  profileCache.set(key, pending);
+  pending.catch(() => profileCache.delete(key));
+  return pending;
+};
@@ -0,0 +1,5 @@
+import { isError } from 'ethers';
+
+/** 用户在钱包中拒绝签名：EIP-1193 的 4001，或 ethers 包装后的 ACTION_REJECTED。 */
+export const isUserRejection = (err: unknown): boolean =>
+  isError(err, 'ACTION_REJECTED') || (err as { code?: unknown } | null)?.code === 4001;
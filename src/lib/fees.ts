@@ -0,0 +1,244 @@
+import { getBytes, parseUnits, toQuantity } from 'ethers';
+import type { AbstractProvider, TransactionRequest } from 'ethers';
+
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+export type FeeMode = FeeSpeed | 'manual';
+
+export type Eip1559Fees = {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+export type TxFees = Eip1559Fees | { gasPrice: bigint };
+
+export type FeeSuggestions = {
+  baseFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+  presets: Record<FeeSpeed, Eip1559Fees> | null;
+};
+
+export type FeeSelection = {
+  mode: FeeMode;
+  maxFeeGwei: string;
+  priorityFeeGwei: string;
+  gasLimit: string;
+};
+
+/** 单笔交易的 Gas 估算，calldata 部分单独列出，方便看出消息长度对费用的影响。 */
+export type GasEstimate = {
+  calldataBytes: number;
+  calldataGas: bigint;
+  gasLimit: bigint;
+  estimated: boolean;
+};
+
+export type CostSummary = {
+  transactions: number;
+  calldataBytes: number;
+  calldataGas: bigint;
+  gasLimit: bigint;
+  expectedWei: bigint;
+  maxWei: bigint;
+};
+
+type FeeHistory = {
+  baseFeePerGas: string[];
+  reward?: string[][];
+};
+
+const TX_BASE_GAS = 21000n;
+const GAS_BUFFER_PERCENT = 20n;
+// EIP-2028 / EIP-7623：零字节 1 个 token、非零字节 4 个 token；标准价每 token 4 gas，
+// Pectra 起交易至少支付 21000 + 每 token 10 gas 的下限，以 calldata 为主的交易按下限计费
+const NONZERO_BYTE_TOKENS = 4n;
+const STANDARD_TOKEN_GAS = 4n;
+const FLOOR_TOKEN_GAS = 10n;
+// Message 事件：LOG3 基础 375 + 3 个 topic 各 375 + 每字节 8，再加上合约执行的余量
+const LOG_BASE_GAS = 375n * 4n;
+const LOG_BYTE_GAS = 8n;
+const CONTRACT_EXECUTION_GAS = 30000n;
+const FEE_HISTORY_BLOCKS = 10;
+const PERCENTILES: Record<FeeSpeed, number> = { slow: 10, normal: 50, fast: 90 };
+
+export const DEFAULT_FEE_SELECTION: FeeSelection = {
+  mode: 'normal',
+  maxFeeGwei: '',
+  priorityFeeGwei: '',
+  gasLimit: '',
+};
+
+export const calldataTokens = (data: string): bigint =>
+  getBytes(data || '0x').reduce((sum, byte) => sum + (byte === 0 ? 1n : NONZERO_BYTE_TOKENS), 0n);
+
+/** 密文近似随机，按全部为非零字节估算 token 数，用于还没有真正加密之前的粗估。 */
+export const ciphertextTokens = (byteLength: number): bigint =>
+  BigInt(byteLength) * NONZERO_BYTE_TOKENS;
+
+/** calldata 按 EIP-7623 下限计的 Gas（零字节 10、非零字节 40），是纯数据交易实际支付的部分。 */
+export const calldataGas = (data: string): bigint => calldataTokens(data) * FLOOR_TOKEN_GAS;
+
+/** 标准价（calldata + 执行）与 EIP-7623 下限两者取大。 */
+export const intrinsicGasForTokens = (tokens: bigint, executionGas = 0n): bigint => {
+  const standard = tokens * STANDARD_TOKEN_GAS + executionGas;
+  const floor = tokens * FLOOR_TOKEN_GAS;
+  return TX_BASE_GAS + (standard > floor ? standard : floor);
+};
+
+export const intrinsicGas = (data: string, executionGas = 0n) =>
+  intrinsicGasForTokens(calldataTokens(data), executionGas);
+
+const withBuffer = (gas: bigint) => (gas * (100n + GAS_BUFFER_PERCENT)) / 100n;
+
+/** estimateGas 失败时按 calldata 大小推算的 Gas 上限，替代固定的默认值。 */
+export const fallbackGasLimit = (data: string, payloadBytes = 0, contractCall = false): bigint => {
+  const executionGas = contractCall
+    ? CONTRACT_EXECUTION_GAS + LOG_BASE_GAS + LOG_BYTE_GAS * BigInt(payloadBytes)
+    : 0n;
+  return withBuffer(intrinsicGas(data, executionGas));
+};
+
+/**
+ * 先让节点 estimateGas，失败（例如余额不足、只读模式没有 from）时退回 calldata 推算值。
+ * payloadBytes 是事件里携带的字节数；合约调用（Messenger、代币转账）需要额外的执行余量。
+ */
+export const estimateGasLimit = async (
+  provider: AbstractProvider,
+  request: TransactionRequest & { data: string },
+  payloadBytes = 0,
+  contractCall = payloadBytes > 0,
+): Promise<GasEstimate> => {
+  const base = {
+    calldataBytes: getBytes(request.data).length,
+    calldataGas: calldataGas(request.data),
+  };
+  try {
+    return { ...base, gasLimit: withBuffer(await provider.estimateGas(request)), estimated: true };
+  } catch {
+    return {
+      ...base,
+      gasLimit: fallbackGasLimit(request.data, payloadBytes, contractCall),
+      estimated: false,
+    };
+  }
+};
+
+const median = (values: bigint[]): bigint => {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const fetchFeeHistory = async (provider: AbstractProvider): Promise<FeeHistory | null> => {
+  // FallbackProvider 等没有 send，此时只用 getFeeData
+  const rpc = provider as AbstractProvider & { send?: (method: string, params: unknown[]) => Promise<unknown> };
+  if (typeof rpc.send !== 'function') {
+    return null;
+  }
+  try {
+    return (await rpc.send('eth_feeHistory', [
+      toQuantity(FEE_HISTORY_BLOCKS),
+      'latest',
+      Object.values(PERCENTILES),
+    ])) as FeeHistory;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 结合 getFeeData 与最近区块 eth_feeHistory 的小费分位数给出 慢/标准/快 三档建议：
+ * maxFeePerGas = 2 × 下一区块 baseFee + 小费，可以容忍连续几个区块 baseFee 上涨。
+ */
+export const fetchFeeSuggestions = async (provider: AbstractProvider): Promise<FeeSuggestions> => {
+  const [feeData, history] = await Promise.all([provider.getFeeData(), fetchFeeHistory(provider)]);
+  const nextBaseFee = history?.baseFeePerGas.length
+    ? BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1])
+    : null;
+  const block = nextBaseFee === null ? await provider.getBlock('latest') : null;
+  const baseFeePerGas = nextBaseFee ?? block?.baseFeePerGas ?? null;
+  if (baseFeePerGas === null) {
+    return { baseFeePerGas: null, gasPrice: feeData.gasPrice, presets: null };
+  }
+  const fallbackPriority = feeData.maxPriorityFeePerGas ?? parseUnits('1', 'gwei');
+  const speeds = Object.keys(PERCENTILES) as FeeSpeed[];
+  const presets = Object.fromEntries(
+    speeds.map((speed, column) => {
+      const rewards = (history?.reward ?? [])
+        .map((row) => row[column])
+        .filter((reward): reward is string => reward !== undefined)
+        .map((reward) => BigInt(reward));
+      const priority = rewards.length > 0 ? median(rewards) : fallbackPriority;
+      return [
+        speed,
+        { maxPriorityFeePerGas: priority, maxFeePerGas: baseFeePerGas * 2n + priority },
+      ];
+    }),
+  ) as Record<FeeSpeed, Eip1559Fees>;
+  return { baseFeePerGas, gasPrice: feeData.gasPrice, presets };
+};
+
+export const resolveFees = (selection: FeeSelection, suggestions: FeeSuggestions): TxFees => {
+  if (selection.mode === 'manual') {
+    if (!selection.maxFeeGwei.trim() || !selection.priorityFeeGwei.trim()) {
+      throw new Error('请填写 maxFeePerGas 与 maxPriorityFeePerGas');
+    }
+    const maxFeePerGas = parseUnits(selection.maxFeeGwei.trim(), 'gwei');
+    const maxPriorityFeePerGas = parseUnits(selection.priorityFeeGwei.trim(), 'gwei');
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      throw new Error('maxPriorityFeePerGas 不能大于 maxFeePerGas');
+    }
+    if (!suggestions.presets) {
+      return { gasPrice: maxFeePerGas };
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+  if (suggestions.presets) {
+    return suggestions.presets[selection.mode];
+  }
+  if (suggestions.gasPrice === null) {
+    throw new Error('无法获取当前网络的 Gas 价格');
+  }
+  return { gasPrice: suggestions.gasPrice };
+};
+
+export const parseGasLimitOverride = (selection: FeeSelection): bigint | null => {
+  const raw = selection.gasLimit.trim();
+  if (!raw) return null;
+  if (!/^\d+$/.test(raw) || BigInt(raw) < TX_BASE_GAS) {
+    throw new Error(`Gas 上限需为不小于 ${TX_BASE_GAS} 的整数`);
+  }
+  return BigInt(raw);
+};
+
+export const maxFeePerGasOf = (fees: TxFees) =>
+  'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas;
+
+/** 按 baseFee + 小费估算实际花费，按 maxFeePerGas 计算最坏情况。 */
+export const expectedFeePerGas = (fees: TxFees, baseFeePerGas: bigint | null) => {
+  if ('gasPrice' in fees) return fees.gasPrice;
+  if (baseFeePerGas === null) return fees.maxFeePerGas;
+  const expected = baseFeePerGas + fees.maxPriorityFeePerGas;
+  return expected < fees.maxFeePerGas ? expected : fees.maxFeePerGas;
+};
+
+export const summarizeCost = (
+  estimates: GasEstimate[],
+  fees: TxFees,
+  baseFeePerGas: bigint | null,
+  valueWei: bigint,
+  gasLimitOverride: bigint | null = null,
+): CostSummary => {
+  const gasLimit = estimates.reduce(
+    (sum, estimate) => sum + (gasLimitOverride ?? estimate.gasLimit),
+    0n,
+  );
+  return {
+    transactions: estimates.length,
+    calldataBytes: estimates.reduce((sum, estimate) => sum + estimate.calldataBytes, 0),
+    calldataGas: estimates.reduce((sum, estimate) => sum + estimate.calldataGas, 0n),
+    gasLimit,
+    expectedWei: gasLimit * expectedFeePerGas(fees, baseFeePerGas) + valueWei,
+    maxWei: gasLimit * maxFeePerGasOf(fees) + valueWei,
+  };
+};
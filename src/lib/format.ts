@@ -0,0 +1,9 @@
+export const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export const formatTimestamp = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+export const formatBytes = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(2)} MB`;
+};
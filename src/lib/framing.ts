@@ -0,0 +1,246 @@
+import { getBytes, hexlify } from 'ethers';
+
+// file 的正文带文件名与 MIME 类型，见 attachments.ts
+export type ContentType = 'text' | 'json' | 'binary' | 'file';
+
+export type Frame = {
+  version: number;
+  contentType: ContentType;
+  compressed: boolean;
+  messageId: string;
+  sequence: number;
+  total: number;
+  payload: Uint8Array;
+};
+
+export type UnpackedMessage = {
+  contentType: ContentType;
+  compressed: boolean;
+  body: Uint8Array;
+};
+
+// 帧格式：magic "SEPM"(4) | version(1) | contentType(1) | flags(1) | messageId(8) | sequence(2) | total(2) | payload
+const FRAME_MAGIC = [0x53, 0x45, 0x50, 0x4d];
+const FRAME_VERSION = 0x01;
+const MESSAGE_ID_LENGTH = 8;
+export const FRAME_HEADER_LENGTH = FRAME_MAGIC.length + 3 + MESSAGE_ID_LENGTH + 4;
+const FLAG_COMPRESSED = 0x01;
+const MAX_CHUNKS = 0xffff;
+
+// 单笔交易的 calldata 上限，远低于节点 128KB 的交易池限制，也让单笔 Gas 保持在可接受范围
+export const DEFAULT_CHUNK_SIZE = 24 * 1024;
+
+const CONTENT_TYPE_IDS: Record<ContentType, number> = {
+  text: 0x01,
+  json: 0x02,
+  binary: 0x03,
+  file: 0x04,
+};
+
+const contentTypeFromId = (id: number): ContentType => {
+  const entry = Object.entries(CONTENT_TYPE_IDS).find(([, value]) => value === id);
+  if (!entry) {
+    throw new Error(`未知的内容类型: ${id}`);
+  }
+  return entry[0] as ContentType;
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBytes = (hex: string): Uint8Array | null => {
+  try {
+    return getBytes(hex);
+  } catch {
+    return null;
+  }
+};
+
+const hasFrameMagic = (bytes: Uint8Array) =>
+  bytes.length > FRAME_HEADER_LENGTH && FRAME_MAGIC.every((byte, i) => bytes[i] === byte);
+
+/** 只看帧头，不尝试解密，用于在解密前区分加密消息与普通合约调用。 */
+export const isFramedPayload = (data: string): boolean => {
+  const bytes = toBytes(data);
+  return !!bytes && hasFrameMagic(bytes);
+};
+
+export const parseFrame = (data: string): Frame => {
+  const bytes = toBytes(data);
+  if (!bytes || !hasFrameMagic(bytes)) {
+    throw new Error('不是加密消息帧');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = FRAME_MAGIC.length;
+  const version = bytes[offset];
+  if (version !== FRAME_VERSION) {
+    throw new Error(`不支持的消息协议版本: ${version}`);
+  }
+  const idStart = offset + 3;
+  const seqStart = idStart + MESSAGE_ID_LENGTH;
+  const frame: Frame = {
+    version,
+    contentType: contentTypeFromId(bytes[offset + 1]),
+    compressed: (bytes[offset + 2] & FLAG_COMPRESSED) !== 0,
+    messageId: hexlify(bytes.slice(idStart, seqStart)),
+    sequence: view.getUint16(seqStart),
+    total: view.getUint16(seqStart + 2),
+    payload: bytes.slice(FRAME_HEADER_LENGTH),
+  };
+  if (frame.total === 0 || frame.sequence >= frame.total) {
+    throw new Error('消息帧序号不合法');
+  }
+  return frame;
+};
+
+const buildFrame = (
+  contentType: ContentType,
+  compressed: boolean,
+  messageId: Uint8Array,
+  sequence: number,
+  total: number,
+  payload: Uint8Array,
+): string => {
+  const bytes = new Uint8Array(FRAME_HEADER_LENGTH + payload.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(FRAME_MAGIC);
+  const offset = FRAME_MAGIC.length;
+  bytes.set(
+    [FRAME_VERSION, CONTENT_TYPE_IDS[contentType], compressed ? FLAG_COMPRESSED : 0],
+    offset,
+  );
+  bytes.set(messageId, offset + 3);
+  view.setUint16(offset + 3 + MESSAGE_ID_LENGTH, sequence);
+  view.setUint16(offset + 5 + MESSAGE_ID_LENGTH, total);
+  bytes.set(payload, FRAME_HEADER_LENGTH);
+  return hexlify(bytes);
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const piped = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+};
+
+export const compressBytes = (bytes: Uint8Array) =>
+  pipeThrough(bytes, new CompressionStream('deflate-raw'));
+
+export const decompressBytes = async (bytes: Uint8Array) => {
+  try {
+    return await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new Error('解压失败：数据已损坏');
+  }
+};
+
+export const encodeContent = (content: string, contentType: ContentType): Uint8Array => {
+  if (contentType === 'json') {
+    try {
+      return encoder.encode(JSON.stringify(JSON.parse(content)));
+    } catch {
+      throw new Error('JSON 格式不正确');
+    }
+  }
+  return encoder.encode(content);
+};
+
+export const decodeContent = (body: Uint8Array, contentType: ContentType): string => {
+  if (contentType === 'json') {
+    const text = decoder.decode(body);
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      return text;
+    }
+  }
+  if (contentType === 'binary') {
+    return hexlify(body);
+  }
+  return decoder.decode(body);
+};
+
+/**
+ * 组装消息：可选压缩（压缩后更大则放弃）→ 加密 → 按 chunkSize 切分为多帧，
+ * 每一帧对应一笔交易的 calldata。
+ */
+export const packMessage = async ({
+  body,
+  contentType,
+  compress,
+  encrypt,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+}: {
+  body: Uint8Array;
+  contentType: ContentType;
+  compress: boolean;
+  encrypt: (plainBytes: Uint8Array) => Promise<Uint8Array>;
+  chunkSize?: number;
+}): Promise<string[]> => {
+  let plain = body;
+  let compressed = false;
+  if (compress) {
+    const deflated = await compressBytes(body);
+    if (deflated.length < body.length) {
+      plain = deflated;
+      compressed = true;
+    }
+  }
+  const cipher = await encrypt(plain);
+  const total = Math.max(1, Math.ceil(cipher.length / chunkSize));
+  if (total > MAX_CHUNKS) {
+    throw new Error('消息过大，超出分段数量上限');
+  }
+  const messageId = crypto.getRandomValues(new Uint8Array(MESSAGE_ID_LENGTH));
+  return Array.from({ length: total }, (_, sequence) =>
+    buildFrame(
+      contentType,
+      compressed,
+      messageId,
+      sequence,
+      total,
+      cipher.slice(sequence * chunkSize, (sequence + 1) * chunkSize),
+    ),
+  );
+};
+
+export const missingSequences = (frames: Frame[]): number[] => {
+  if (frames.length === 0) {
+    return [];
+  }
+  const present = new Set(frames.map((frame) => frame.sequence));
+  return Array.from({ length: frames[0].total }, (_, i) => i).filter((i) => !present.has(i));
+};
+
+/** 按 messageId 重组分段，全部到齐后解密并按需解压。 */
+export const unpackMessage = async (
+  frames: Frame[],
+  decrypt: (cipherBytes: Uint8Array) => Promise<Uint8Array>,
+): Promise<UnpackedMessage> => {
+  if (frames.length === 0) {
+    throw new Error('没有可用的消息帧');
+  }
+  const [first] = frames;
+  if (frames.some((frame) => frame.messageId !== first.messageId)) {
+    throw new Error('消息帧不属于同一条消息');
+  }
+  const missing = missingSequences(frames);
+  if (missing.length > 0) {
+    throw new Error(
+      `消息共 ${first.total} 段，缺少第 ${missing.map((i) => i + 1).join(', ')} 段`,
+    );
+  }
+  const ordered = Array.from(
+    new Map(frames.map((frame) => [frame.sequence, frame])).values(),
+  ).sort((a, b) => a.sequence - b.sequence);
+  const cipher = new Uint8Array(ordered.reduce((sum, frame) => sum + frame.payload.length, 0));
+  let offset = 0;
+  ordered.forEach((frame) => {
+    cipher.set(frame.payload, offset);
+    offset += frame.payload.length;
+  });
+  const plain = await decrypt(cipher);
+  return {
+    contentType: first.contentType,
+    compressed: first.compressed,
+    body: first.compressed ? await decompressBytes(plain) : plain,
+  };
+};
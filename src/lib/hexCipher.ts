@@ -1,4 +1,4 @@
-import { isHexString } from 'ethers';
+import { getBytes, isHexString, scrypt } from 'ethers';
 
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
@@ -65,3 +65,182 @@ export const decryptHexToText = (cipherHex: string, key: string): string => {
   const plainBytes = applyCipher(inputBytes, keyBytes);
   return decoder.decode(plainBytes);
 };
+
+export type CipherMode = 'xor' | 'aes-gcm';
+
+// 信封格式：magic(1) | version(1) | algorithm(1) | salt(16) | nonce(12) | ciphertext | tag(16)
+export const ENVELOPE_MAGIC = 0xec;
+export const ENVELOPE_VERSION = 0x01;
+export const ECIES_ALGORITHM_ID = 0x10;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = 3 + SALT_LENGTH + NONCE_LENGTH;
+
+type KdfAlgorithm = {
+  id: number;
+  name: string;
+  deriveKey: (key: Uint8Array, salt: Uint8Array) => Promise<Uint8Array>;
+};
+
+const PBKDF2_ITERATIONS = 210_000;
+
+const derivePbkdf2 = async (key: Uint8Array, salt: Uint8Array): Promise<Uint8Array> => {
+  const baseKey = await crypto.subtle.importKey('raw', new Uint8Array(key), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new Uint8Array(salt), iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    256,
+  );
+  return new Uint8Array(bits);
+};
+
+const deriveScrypt = async (key: Uint8Array, salt: Uint8Array): Promise<Uint8Array> => {
+  const derived = await scrypt(key, salt, 1 << 14, 8, 1, 32);
+  return getBytes(derived);
+};
+
+const KDF_ALGORITHMS: KdfAlgorithm[] = [
+  { id: 0x01, name: 'PBKDF2-SHA256 / AES-256-GCM', deriveKey: derivePbkdf2 },
+  { id: 0x02, name: 'scrypt / AES-256-GCM', deriveKey: deriveScrypt },
+];
+
+const DEFAULT_ALGORITHM_ID = 0x01;
+
+export type CipherInfo =
+  | { kind: 'envelope'; version: number; algorithmId: number; algorithm: string }
+  | { kind: 'legacy' };
+
+/**
+ * magic、版本与算法 ID 同时有效才视为信封。旧版异或密文的首字节约有 1/256 的概率恰好是
+ * 0xec，只看 magic 会把它们误判为信封而无法回退到异或解密。
+ */
+export const isEnvelope = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_LENGTH + TAG_LENGTH &&
+  bytes[0] === ENVELOPE_MAGIC &&
+  bytes[1] === ENVELOPE_VERSION &&
+  (bytes[2] === ECIES_ALGORITHM_ID || KDF_ALGORITHMS.some((alg) => alg.id === bytes[2]));
+
+const algorithmName = (id: number): string => {
+  if (id === ECIES_ALGORITHM_ID) {
+    return 'ECIES secp256k1 / HKDF-SHA256 / AES-256-GCM';
+  }
+  const algorithm = KDF_ALGORITHMS.find((alg) => alg.id === id);
+  return algorithm ? algorithm.name : '未知算法';
+};
+
+const findAlgorithm = (id: number): KdfAlgorithm => {
+  const algorithm = KDF_ALGORITHMS.find((alg) => alg.id === id);
+  if (!algorithm) {
+    throw new Error(`不支持的加密算法 ID: ${id}`);
+  }
+  return algorithm;
+};
+
+const importAesKey = (raw: Uint8Array, usage: KeyUsage) =>
+  crypto.subtle.importKey('raw', new Uint8Array(raw), 'AES-GCM', false, [usage]);
+
+export const describeCipherHex = (cipherHex: string): CipherInfo => {
+  const bytes = hexToBytes(normalizeHex(cipherHex));
+  if (!isEnvelope(bytes)) {
+    return { kind: 'legacy' };
+  }
+  return {
+    kind: 'envelope',
+    version: bytes[1],
+    algorithmId: bytes[2],
+    algorithm: algorithmName(bytes[2]),
+  };
+};
+
+export const encryptBytesToEnvelope = async (
+  plainBytes: Uint8Array,
+  key: string,
+  algorithmId = DEFAULT_ALGORITHM_ID,
+): Promise<Uint8Array> => {
+  if (plainBytes.length === 0) {
+    throw new Error('待加密内容不能为空');
+  }
+  const algorithm = findAlgorithm(algorithmId);
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  const aesKey = await importAesKey(await algorithm.deriveKey(buildKey(key), salt), 'encrypt');
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, new Uint8Array(plainBytes)),
+  );
+
+  const envelope = new Uint8Array(HEADER_LENGTH + sealed.length);
+  envelope.set([ENVELOPE_MAGIC, ENVELOPE_VERSION, algorithm.id]);
+  envelope.set(salt, 3);
+  envelope.set(nonce, 3 + SALT_LENGTH);
+  envelope.set(sealed, HEADER_LENGTH);
+  return envelope;
+};
+
+export const encryptTextToEnvelope = async (
+  text: string,
+  key: string,
+  algorithmId = DEFAULT_ALGORITHM_ID,
+): Promise<string> => {
+  if (!text) {
+    throw new Error('待加密文本不能为空');
+  }
+  return bytesToHex(await encryptBytesToEnvelope(encoder.encode(text), key, algorithmId));
+};
+
+const decryptEnvelope = async (bytes: Uint8Array, key: string): Promise<Uint8Array> => {
+  if (bytes[1] !== ENVELOPE_VERSION) {
+    throw new Error(`不支持的信封版本: ${bytes[1]}`);
+  }
+  if (bytes[2] === ECIES_ALGORITHM_ID) {
+    throw new Error('该密文使用接收方公钥加密，请提供私钥或通过钱包解密');
+  }
+  const algorithm = findAlgorithm(bytes[2]);
+  const salt = bytes.slice(3, 3 + SALT_LENGTH);
+  const nonce = bytes.slice(3 + SALT_LENGTH, HEADER_LENGTH);
+  const sealed = bytes.slice(HEADER_LENGTH);
+  const aesKey = await importAesKey(await algorithm.deriveKey(buildKey(key), salt), 'decrypt');
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, sealed);
+    return new Uint8Array(plain);
+  } catch {
+    throw new Error('解密失败：密钥错误或密文已被篡改');
+  }
+};
+
+export const encryptBytes = async (
+  plainBytes: Uint8Array,
+  key: string,
+  mode: CipherMode,
+): Promise<Uint8Array> => {
+  if (mode === 'aes-gcm') {
+    return encryptBytesToEnvelope(plainBytes, key);
+  }
+  if (plainBytes.length === 0) {
+    throw new Error('待加密内容不能为空');
+  }
+  return applyCipher(plainBytes, buildKey(key));
+};
+
+/**
+ * 自动识别密文格式：带信封头的走 AES-GCM 认证解密，其余按旧版异或算法处理，
+ * 以兼容已经上链的历史数据。
+ */
+export const decryptBytes = async (cipherBytes: Uint8Array, key: string): Promise<Uint8Array> => {
+  if (isEnvelope(cipherBytes)) {
+    return decryptEnvelope(cipherBytes, key);
+  }
+  return applyCipher(cipherBytes, buildKey(key));
+};
+
+export const encryptText = async (text: string, key: string, mode: CipherMode): Promise<string> => {
+  if (!text) {
+    throw new Error('待加密文本不能为空');
+  }
+  return bytesToHex(await encryptBytes(encoder.encode(text), key, mode));
+};
+
+export const decryptText = async (cipherHex: string, key: string): Promise<string> =>
+  decoder.decode(await decryptBytes(hexToBytes(normalizeHex(cipherHex)), key));
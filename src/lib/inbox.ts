@@ -0,0 +1,330 @@
+import { getAddress } from 'ethers';
+import type { Provider } from 'ethers';
+import { Frame, isFramedPayload, parseFrame } from './framing';
+import { MessageKeys, classifyPayload, readFramedMessage, readRawMessage } from './messages';
+import { LOG_WINDOW, fetchMessengerMessages } from './messenger';
+
+export type InboxSource = 'blocks' | 'messenger';
+
+export type InboxEntry = {
+  hash: string;
+  logIndex?: number;
+  from: string;
+  blockNumber: number;
+  timestamp: number;
+  data: string;
+  valueWei: string;
+  legacy: boolean;
+};
+
+/** 已扫描区块 [fromBlock, lastScannedBlock] 始终连续，缓存只保存密文，不落盘明文。 */
+export type InboxCache = {
+  chainId: number;
+  address: string;
+  source?: InboxSource;
+  messengerAddress?: string;
+  fromBlock: number;
+  lastScannedBlock: number;
+  entries: InboxEntry[];
+};
+
+export type DecryptedInboxEntry = InboxEntry & {
+  plaintext: string | null;
+  error?: string;
+  chunks: number;
+};
+
+export type ScanProgress = {
+  scanned: number;
+  total: number;
+  found: number;
+};
+
+export type ScanOptions = {
+  provider: Provider;
+  chainId: number;
+  address: string;
+  fromBlock: number;
+  toBlock: number;
+  source?: InboxSource;
+  messengerAddress?: string;
+  includeLegacy?: boolean;
+  cache?: InboxCache | null;
+  // Node 中没有 localStorage，传 false 跳过写回缓存
+  persist?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+};
+
+type RangeFetcher = {
+  windowSize: number;
+  fetch: (start: number, end: number) => Promise<InboxEntry[]>;
+};
+
+const CACHE_PREFIX = 'sepolia-ethers:inbox';
+const BLOCK_BATCH_SIZE = 5;
+
+const cacheKey = (chainId: number, address: string, source: InboxSource = 'blocks') =>
+  `${CACHE_PREFIX}:${chainId}:${address.toLowerCase()}${source === 'messenger' ? ':messenger' : ''}`;
+
+export const entryKey = (entry: InboxEntry) => `${entry.hash}:${entry.logIndex ?? 0}`;
+
+export const loadInboxCache = (
+  chainId: number,
+  address: string,
+  source: InboxSource = 'blocks',
+): InboxCache | null => {
+  const raw = localStorage.getItem(cacheKey(chainId, address, source));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as InboxCache;
+  } catch {
+    localStorage.removeItem(cacheKey(chainId, address, source));
+    return null;
+  }
+};
+
+export const saveInboxCache = (cache: InboxCache) => {
+  localStorage.setItem(cacheKey(cache.chainId, cache.address, cache.source), JSON.stringify(cache));
+};
+
+export const clearInboxCache = (chainId: number, address: string, source: InboxSource = 'blocks') => {
+  localStorage.removeItem(cacheKey(chainId, address, source));
+};
+
+const fetchBlockEntries = async (
+  provider: Provider,
+  blockNumber: number,
+  recipient: string,
+  includeLegacy: boolean,
+): Promise<InboxEntry[]> => {
+  const block = await provider.getBlock(blockNumber, true);
+  if (!block) {
+    throw new Error(`未找到区块 ${blockNumber}`);
+  }
+  return block.prefetchedTransactions
+    .filter((tx) => tx.to && getAddress(tx.to) === recipient && tx.data && tx.data !== '0x')
+    .filter((tx) => includeLegacy || classifyPayload(tx.data) !== 'unknown')
+    .map((tx) => ({
+      hash: tx.hash,
+      from: tx.from,
+      blockNumber,
+      timestamp: block.timestamp,
+      data: tx.data,
+      valueWei: tx.value.toString(),
+      legacy: classifyPayload(tx.data) === 'unknown',
+    }));
+};
+
+const blockFetcher = (
+  provider: Provider,
+  recipient: string,
+  includeLegacy: boolean,
+): RangeFetcher => ({
+  windowSize: BLOCK_BATCH_SIZE,
+  fetch: async (start, end) => {
+    const blocks = Array.from({ length: end - start + 1 }, (_, i) => start + i);
+    const results = await Promise.all(
+      blocks.map((n) => fetchBlockEntries(provider, n, recipient, includeLegacy)),
+    );
+    return results.flat();
+  },
+});
+
+const messengerFetcher = (
+  provider: Provider,
+  contractAddress: string,
+  recipient: string,
+): RangeFetcher => ({
+  windowSize: LOG_WINDOW,
+  fetch: async (start, end) => {
+    const messages = await fetchMessengerMessages({
+      provider,
+      contractAddress,
+      to: recipient,
+      fromBlock: start,
+      toBlock: end,
+    });
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set(messages.map((message) => message.blockNumber))) {
+      const block = await provider.getBlock(blockNumber);
+      timestamps.set(blockNumber, block?.timestamp ?? 0);
+    }
+    return messages.map((message) => ({
+      hash: message.hash,
+      logIndex: message.logIndex,
+      from: message.from,
+      blockNumber: message.blockNumber,
+      timestamp: timestamps.get(message.blockNumber) ?? 0,
+      data: message.payload,
+      valueWei: '0',
+      legacy: classifyPayload(message.payload) === 'unknown',
+    }));
+  },
+});
+
+const windows = (start: number, end: number, size: number): [number, number][] => {
+  const result: [number, number][] = [];
+  if (start <= end) {
+    for (let n = start; n <= end; n += size) {
+      result.push([n, Math.min(n + size - 1, end)]);
+    }
+  } else {
+    for (let n = start; n >= end; n -= size) {
+      result.push([Math.max(n - size + 1, end), n]);
+    }
+  }
+  return result;
+};
+
+/**
+ * 扫描 [fromBlock, toBlock] 内发给 address 的加密消息。已有缓存且范围相接时只补扫缓存范围之外的区块：
+ * 新区块向后扫，更早的区块从缓存起点向前扫，每批完成后都会写回缓存，中断后可从游标继续。
+ * source 为 messenger 时改为读取 Messenger 合约的 Message 事件，无需逐块拉取交易。
+ */
+export const scanInbox = async ({
+  provider,
+  chainId,
+  address,
+  fromBlock,
+  toBlock,
+  source = 'blocks',
+  messengerAddress,
+  includeLegacy = false,
+  cache,
+  persist = true,
+  signal,
+  onProgress,
+}: ScanOptions): Promise<InboxCache> => {
+  if (fromBlock < 0 || toBlock < fromBlock) {
+    throw new Error('区块范围不合法');
+  }
+  if (source === 'messenger' && !messengerAddress) {
+    throw new Error('请先填写 Messenger 合约地址');
+  }
+  const recipient = getAddress(address);
+  const contract = messengerAddress ? getAddress(messengerAddress) : undefined;
+  const reusable =
+    cache &&
+    cache.chainId === chainId &&
+    getAddress(cache.address) === recipient &&
+    (cache.source ?? 'blocks') === source &&
+    (source === 'blocks' || cache.messengerAddress === contract) &&
+    // 请求范围与缓存不相接时另起缓存，否则中间未扫描的区块会被当作已覆盖
+    fromBlock <= cache.lastScannedBlock + 1 &&
+    toBlock >= cache.fromBlock - 1
+      ? cache
+      : null;
+  const current: InboxCache = reusable
+    ? { ...reusable, entries: [...reusable.entries] }
+    : {
+        chainId,
+        address: recipient,
+        source,
+        messengerAddress: source === 'messenger' ? contract : undefined,
+        fromBlock,
+        lastScannedBlock: fromBlock - 1,
+        entries: [],
+      };
+
+  const fetcher =
+    source === 'messenger' && contract
+      ? messengerFetcher(provider, contract, recipient)
+      : blockFetcher(provider, recipient, includeLegacy);
+  const pending: [number, number][] = [];
+  if (fromBlock < current.fromBlock) {
+    pending.push(...windows(current.fromBlock - 1, fromBlock, fetcher.windowSize));
+  }
+  if (toBlock > current.lastScannedBlock) {
+    pending.push(...windows(current.lastScannedBlock + 1, toBlock, fetcher.windowSize));
+  }
+
+  const total = pending.reduce((sum, [start, end]) => sum + end - start + 1, 0);
+  let scanned = 0;
+  const known = new Set(current.entries.map(entryKey));
+
+  for (const [start, end] of pending) {
+    if (signal?.aborted) {
+      return current;
+    }
+    const entries = await fetcher.fetch(start, end);
+    entries.forEach((entry) => {
+      if (!known.has(entryKey(entry))) {
+        known.add(entryKey(entry));
+        current.entries.push(entry);
+      }
+    });
+    current.fromBlock = Math.min(current.fromBlock, start);
+    current.lastScannedBlock = Math.max(current.lastScannedBlock, end);
+    current.entries.sort((a, b) => b.blockNumber - a.blockNumber);
+    if (persist) {
+      saveInboxCache(current);
+    }
+    scanned += end - start + 1;
+    onProgress?.({ scanned, total, found: current.entries.length });
+  }
+  return current;
+};
+
+const readEntry = async (
+  entry: InboxEntry,
+  read: () => Promise<{ content: string }>,
+  chunks = 1,
+): Promise<DecryptedInboxEntry> => {
+  try {
+    return { ...entry, plaintext: (await read()).content, chunks };
+  } catch (err) {
+    return {
+      ...entry,
+      plaintext: null,
+      error: err instanceof Error ? err.message : '解密失败',
+      chunks,
+    };
+  }
+};
+
+/**
+ * 按 发送方 + messageId 重组分段消息后，依次尝试用户提供的私钥与口令解密；
+ * 未分帧的早期信封与旧版异或数据逐条解密。
+ */
+export const decryptInbox = async (
+  entries: InboxEntry[],
+  keys: MessageKeys,
+): Promise<DecryptedInboxEntry[]> => {
+  const groups = new Map<string, { entry: InboxEntry; frames: Frame[] }>();
+  const results: Promise<DecryptedInboxEntry>[] = [];
+
+  entries.forEach((entry) => {
+    if (!isFramedPayload(entry.data)) {
+      results.push(readEntry(entry, () => readRawMessage(entry.data, keys)));
+      return;
+    }
+    let frame: Frame;
+    try {
+      frame = parseFrame(entry.data);
+    } catch (err) {
+      results.push(readEntry(entry, () => Promise.reject(err)));
+      return;
+    }
+    const groupKey = `${entry.from.toLowerCase()}:${frame.messageId}`;
+    const group = groups.get(groupKey);
+    if (!group) {
+      groups.set(groupKey, { entry, frames: [frame] });
+      return;
+    }
+    group.frames.push(frame);
+    // 以最早的一段作为消息的展示信息
+    if (entry.blockNumber < group.entry.blockNumber) {
+      group.entry = entry;
+    }
+  });
+
+  groups.forEach(({ entry, frames }) => {
+    results.push(readEntry(entry, () => readFramedMessage(frames, keys), frames[0].total));
+  });
+
+  const decrypted = await Promise.all(results);
+  return decrypted.sort((a, b) => b.blockNumber - a.blockNumber);
+};
@@ -0,0 +1,148 @@
+import { getAddress } from 'ethers';
+import { decryptText, encryptTextToEnvelope } from './hexCipher';
+
+/** 保险库中的一条口令，可绑定多个联系人地址；发送与解密时按地址自动选用。 */
+export type VaultKey = {
+  id: string;
+  label: string;
+  key: string;
+  contacts: string[];
+  createdAt: number;
+};
+
+const DB_NAME = 'sepolia-ethers';
+const DB_VERSION = 1;
+const STORE_NAME = 'vault';
+const RECORD_KEY = 'keys';
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('无法打开 IndexedDB'));
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error ?? new Error('读写 IndexedDB 失败'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const readSealed = () => withStore<string | undefined>('readonly', (store) => store.get(RECORD_KEY));
+
+const writeSealed = (sealed: string) =>
+  withStore<IDBValidKey>('readwrite', (store) => store.put(sealed, RECORD_KEY));
+
+export const vaultExists = async () => (await readSealed()) !== undefined;
+
+/**
+ * 整个密钥列表序列化后用主口令加密为一个 AES-GCM 信封（PBKDF2 派生密钥），
+ * IndexedDB 中只保存密文；主口令错误时 GCM 校验失败，直接报错。
+ */
+export const saveVault = async (keys: VaultKey[], master: string) => {
+  if (!master) {
+    throw new Error('主口令不能为空');
+  }
+  await writeSealed(await encryptTextToEnvelope(JSON.stringify(keys), master));
+};
+
+export const createVault = async (master: string): Promise<VaultKey[]> => {
+  if (master.length < 8) {
+    throw new Error('主口令至少 8 个字符');
+  }
+  if (await vaultExists()) {
+    throw new Error('保险库已存在，请直接解锁');
+  }
+  await saveVault([], master);
+  return [];
+};
+
+export const unlockVault = async (master: string): Promise<VaultKey[]> => {
+  const sealed = await readSealed();
+  if (sealed === undefined) {
+    throw new Error('尚未创建保险库');
+  }
+  let parsed: unknown;
+  try {
+    // 记录若不是信封格式会按旧版异或“解出”乱码，JSON 解析失败同样说明口令不对
+    parsed = JSON.parse(await decryptText(sealed, master));
+  } catch {
+    throw new Error('主口令错误');
+  }
+  return Array.isArray(parsed) ? (parsed as VaultKey[]) : [];
+};
+
+export const destroyVault = () =>
+  withStore<undefined>('readwrite', (store) => store.delete(RECORD_KEY));
+
+/** 逗号、空格或换行分隔的地址列表，统一为校验和格式并去重。 */
+export const parseContacts = (input: string): string[] => {
+  const contacts = input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((item) => {
+      try {
+        return getAddress(item);
+      } catch {
+        throw new Error(`联系人地址无效: ${item}`);
+      }
+    });
+  return [...new Set(contacts)];
+};
+
+export const buildVaultKey = (label: string, key: string, contacts: string): VaultKey => {
+  if (!label.trim()) {
+    throw new Error('请填写密钥名称');
+  }
+  if (!key) {
+    throw new Error('口令不能为空');
+  }
+  return {
+    id: crypto.randomUUID(),
+    label: label.trim(),
+    key,
+    contacts: parseContacts(contacts),
+    createdAt: Date.now(),
+  };
+};
+
+/** 按地址顺序收集绑定的口令（去重），地址靠前的优先尝试。 */
+export const keysForAddresses = (
+  keys: VaultKey[] | null,
+  addresses: (string | null | undefined)[],
+): VaultKey[] => {
+  if (!keys) {
+    return [];
+  }
+  const targets = addresses
+    .filter((item): item is string => !!item)
+    .map((item) => item.toLowerCase());
+  const matched: VaultKey[] = [];
+  targets.forEach((target) => {
+    keys
+      .filter((entry) => entry.contacts.some((contact) => contact.toLowerCase() === target))
+      .forEach((entry) => {
+        if (!matched.includes(entry)) matched.push(entry);
+      });
+  });
+  return matched;
+};
+
+export const keyForRecipient = (keys: VaultKey[] | null, address: string): VaultKey | null =>
+  keysForAddresses(keys, [address])[0] ?? null;
@@ -0,0 +1,96 @@
+import { Mnemonic, Wallet, getAddress, isKeystoreJson } from 'ethers';
+import type { AbstractProvider, HDNodeWallet, ProgressCallback, Signer } from 'ethers';
+
+export type AddressedSigner = Signer & { readonly address: string };
+
+/** 私钥导入得到 Wallet，助记词导入或新建得到 HDNodeWallet，两者都能加密为 keystore。 */
+export type LocalWallet = Wallet | HDNodeWallet;
+
+/**
+ * 页面中所有签名操作只依赖 getSigner：浏览器钱包与开发节点的 JsonRpcApiProvider
+ * 天然满足，本地 keystore 钱包通过 localSignerSource 包装。
+ */
+export type SignerSource = {
+  getSigner: (address?: string) => Promise<AddressedSigner>;
+};
+
+export type StoredKeystore = {
+  address: string;
+  json: string;
+  createdAt: number;
+};
+
+const STORAGE_KEY = 'sepolia-ethers:keystore';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const loadKeystore = (): StoredKeystore | null => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const stored = JSON.parse(raw) as StoredKeystore;
+    return isKeystoreJson(stored.json) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearKeystore = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/** 助记词（12 个单词及以上）或 32 字节私钥，0x 前缀可省略。 */
+export const importLocalWallet = (secret: string): LocalWallet => {
+  const input = secret.trim().replace(/\s+/g, ' ');
+  if (!input) {
+    throw new Error('请输入助记词或私钥');
+  }
+  if (input.includes(' ')) {
+    if (!Mnemonic.isValidMnemonic(input)) {
+      throw new Error('助记词无效，请检查单词拼写与数量');
+    }
+    return Wallet.fromPhrase(input);
+  }
+  try {
+    return new Wallet(input.startsWith('0x') ? input : `0x${input}`);
+  } catch {
+    throw new Error('私钥格式不正确，应为 64 位 16 进制');
+  }
+};
+
+/** 按 JSON V3（scrypt + AES-128-CTR）加密后保存，明文私钥不落盘。 */
+export const saveLocalWallet = async (
+  wallet: LocalWallet,
+  password: string,
+  onProgress?: ProgressCallback,
+): Promise<StoredKeystore> => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`密码至少 ${MIN_PASSWORD_LENGTH} 个字符`);
+  }
+  const stored = {
+    address: getAddress(wallet.address),
+    json: await wallet.encrypt(password, onProgress),
+    createdAt: Date.now(),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  return stored;
+};
+
+export const unlockLocalWallet = async (
+  stored: StoredKeystore,
+  password: string,
+  onProgress?: ProgressCallback,
+): Promise<LocalWallet> => {
+  try {
+    return await Wallet.fromEncryptedJson(stored.json, password, onProgress);
+  } catch {
+    throw new Error('密码错误或 keystore 已损坏');
+  }
+};
+
+export const localSignerSource = (wallet: LocalWallet, provider: AbstractProvider): SignerSource => {
+  const signer = wallet.connect(provider);
+  return { getSigner: async () => signer };
+};
@@ -0,0 +1,141 @@
+import { getBytes } from 'ethers';
+import { CipherMode, decryptBytes, encryptBytes, isEnvelope } from './hexCipher';
+import { decryptBytesWithPrivateKey, encryptBytesForPublicKey } from './ecies';
+import {
+  ContentType,
+  Frame,
+  decodeContent,
+  isFramedPayload,
+  missingSequences,
+  unpackMessage,
+} from './framing';
+import { Attachment, decodeAttachment, describeAttachment, sniffMimeType } from './attachments';
+
+export type MessageKeys = {
+  passphrases: string[];
+  privateKey?: string;
+};
+
+/** 发送消息时的加密方式：口令（AES-GCM / 异或）或接收方公钥（ECIES）。 */
+export type TransferMode = CipherMode | 'ecies';
+
+export type PayloadKind = 'framed' | 'envelope' | 'unknown';
+
+export type ReadMessage = {
+  contentType: ContentType;
+  compressed: boolean;
+  content: string;
+  // file / binary 消息的原始字节，content 只是它的文字说明
+  attachment: Attachment | null;
+};
+
+type Decryptor = (cipherBytes: Uint8Array) => Promise<Uint8Array>;
+
+/** ecies 模式下 key 为接收方公钥，其余模式为口令。 */
+export const encryptorFor =
+  (mode: TransferMode, key: string) =>
+  (plainBytes: Uint8Array): Promise<Uint8Array> =>
+    mode === 'ecies' ? encryptBytesForPublicKey(plainBytes, key) : encryptBytes(plainBytes, key, mode);
+
+/** 解密前的格式识别：消息帧 > 裸信封（早期版本直接上链的密文）> 无法识别。 */
+export const classifyPayload = (data: string): PayloadKind => {
+  if (!data || data === '0x') {
+    return 'unknown';
+  }
+  if (isFramedPayload(data)) {
+    return 'framed';
+  }
+  try {
+    return isEnvelope(getBytes(data)) ? 'envelope' : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+};
+
+export const looksLikeText = (text: string) =>
+  Array.from(text).every((char) => {
+    const code = char.charCodeAt(0);
+    return code !== 0xfffd && (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d);
+  });
+
+const buildDecryptors = (keys: MessageKeys): Decryptor[] => {
+  const decryptors: Decryptor[] = [];
+  if (keys.privateKey?.trim()) {
+    const privateKey = keys.privateKey;
+    decryptors.push((cipher) => decryptBytesWithPrivateKey(cipher, privateKey));
+  }
+  keys.passphrases
+    .filter((passphrase) => passphrase.trim())
+    .forEach((passphrase) => decryptors.push((cipher) => decryptBytes(cipher, passphrase)));
+  return decryptors;
+};
+
+/**
+ * 依次尝试每个密钥。旧版异或没有完整性校验，只能用解出的内容是否像文本来判断密钥是否正确。
+ */
+const tryDecryptors = async (
+  keys: MessageKeys,
+  read: (decrypt: Decryptor) => Promise<ReadMessage>,
+): Promise<ReadMessage> => {
+  const decryptors = buildDecryptors(keys);
+  if (decryptors.length === 0) {
+    throw new Error('请至少提供一个密钥');
+  }
+  let lastError: unknown = null;
+  for (const decrypt of decryptors) {
+    try {
+      const message = await read(decrypt);
+      if (!message.attachment && !looksLikeText(message.content)) {
+        throw new Error('无法用当前密钥解密');
+      }
+      return message;
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error('无法用当前密钥解密');
+};
+
+export const readFramedMessage = (frames: Frame[], keys: MessageKeys): Promise<ReadMessage> => {
+  const missing = missingSequences(frames);
+  if (missing.length > 0) {
+    const total = frames[0].total;
+    return Promise.reject(
+      new Error(`消息共 ${total} 段，缺少第 ${missing.map((i) => i + 1).join(', ')} 段`),
+    );
+  }
+  return tryDecryptors(keys, async (decrypt) => {
+    let legacy = false;
+    const message = await unpackMessage(frames, (cipher) => {
+      legacy = !isEnvelope(cipher);
+      return decrypt(cipher);
+    });
+    // 文件与二进制内容无法按文本校验，旧版异或又没有完整性校验，错误口令也会“解出”一个附件
+    if (legacy && (message.contentType === 'file' || message.contentType === 'binary')) {
+      throw new Error('旧版异或密文不支持附件与二进制内容，无法确认口令是否正确');
+    }
+    const attachment =
+      message.contentType === 'file'
+        ? decodeAttachment(message.body)
+        : message.contentType === 'binary'
+          ? { name: '', mimeType: sniffMimeType(message.body), bytes: message.body }
+          : null;
+    return {
+      contentType: message.contentType,
+      compressed: message.compressed,
+      content: attachment
+        ? describeAttachment(attachment)
+        : decodeContent(message.body, message.contentType),
+      attachment,
+    };
+  });
+};
+
+/** 读取未分帧的密文：早期的 AES-GCM / ECIES 信封，以及旧版异或数据。 */
+export const readRawMessage = (data: string, keys: MessageKeys): Promise<ReadMessage> =>
+  tryDecryptors(keys, async (decrypt) => ({
+    contentType: 'text',
+    compressed: false,
+    content: decodeContent(await decrypt(getBytes(data)), 'text'),
+    attachment: null,
+  }));
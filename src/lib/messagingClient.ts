@@ -0,0 +1,307 @@
+import { formatEther, getAddress } from 'ethers';
+import type {
+  AbstractProvider,
+  Signer,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+} from 'ethers';
+import { ContentType, encodeContent, isFramedPayload, packMessage, parseFrame } from './framing';
+import { MessageKeys, TransferMode, classifyPayload, encryptorFor, readFramedMessage, readRawMessage } from './messages';
+import { buildFrameRequests, decodeMessengerTx } from './messenger';
+import { describeCipherHex } from './hexCipher';
+import { GasEstimate, TxFees, estimateGasLimit } from './fees';
+import { AbiSource, DecodedTransaction, decodeTransaction } from './txDecoder';
+import { resolveRecipient } from './ens';
+import { Unsubscribe, createEmitter } from './emitter';
+import { Attachment, encodeAttachment } from './attachments';
+
+export type MessageDraft = {
+  to: string;
+  content: string;
+  contentType: ContentType;
+  // 带附件时忽略 content 与 contentType，按 file 类型发送
+  attachment?: Attachment | null;
+  compress: boolean;
+  mode: TransferMode;
+  // ecies 模式下为接收方公钥，其余为口令
+  key: string;
+  value?: bigint;
+  messenger?: string | null;
+};
+
+export type FrameRequest = {
+  request: TransactionRequest & { to: string; value: bigint; data: string };
+  payloadBytes: number;
+};
+
+export type ComposedMessage = {
+  to: string;
+  frames: string[];
+  value: bigint;
+  messenger: string | null;
+  requests: FrameRequest[];
+};
+
+export type SendOptions = {
+  signer: Signer;
+  fees: TxFees;
+  gasLimitOverride?: bigint | null;
+};
+
+export type TxInfo = {
+  hash: string;
+  from: string;
+  to: string | null;
+  valueEth: string;
+  data: string;
+  blockNumber: number | null;
+  status?: number | null;
+  messageTo?: string | null;
+};
+
+export type LookupResult = {
+  tx: TransactionResponse;
+  receipt: TransactionReceipt | null;
+  info: TxInfo;
+  decoded: DecodedTransaction;
+};
+
+export type DecryptedPayload = {
+  content: string;
+  contentType: ContentType;
+  attachment: Attachment | null;
+  compressed: boolean;
+  totalFrames: number;
+  format: 'framed' | 'envelope' | 'legacy';
+  // 仅裸信封带算法名
+  algorithm: string | null;
+};
+
+export type ReadOptions = {
+  // 仅在 data 非空时调用，可按发送方 / 接收方挑选口令
+  keys: (info: TxInfo) => MessageKeys | Promise<MessageKeys>;
+  extraHashes?: string[];
+  sources?: AbiSource[];
+};
+
+export type ReadResult = LookupResult & {
+  message: DecryptedPayload | null;
+  // 识别为加密消息但密钥不匹配等情况
+  error: string | null;
+};
+
+export type MessagingEvents = {
+  gas: { index: number; total: number; estimate: GasEstimate };
+  sent: { tx: TransactionResponse; index: number; total: number };
+};
+
+export type MessagingClient = {
+  readonly provider: AbstractProvider;
+  on: <K extends keyof MessagingEvents>(
+    event: K,
+    handler: (payload: MessagingEvents[K]) => void,
+  ) => Unsubscribe;
+  compose: (draft: MessageDraft) => Promise<ComposedMessage>;
+  estimate: (message: ComposedMessage, from?: string) => Promise<GasEstimate[]>;
+  send: (message: ComposedMessage, options: SendOptions) => Promise<TransactionResponse[]>;
+  lookup: (hash: string, sources?: AbiSource[]) => Promise<LookupResult>;
+  decryptPayload: (
+    data: string,
+    keys: MessageKeys,
+    extraHashes?: string[],
+  ) => Promise<DecryptedPayload | null>;
+  read: (hash: string, options: ReadOptions) => Promise<ReadResult>;
+};
+
+export const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  text: '文本',
+  json: 'JSON',
+  binary: '二进制',
+  file: '文件',
+};
+
+const FORMAT_LABELS: Record<DecryptedPayload['format'], string> = {
+  framed: '消息帧',
+  envelope: '裸信封',
+  legacy: '旧版异或',
+};
+
+export const describePayload = (message: DecryptedPayload) =>
+  [
+    FORMAT_LABELS[message.format],
+    message.algorithm ?? '',
+    CONTENT_TYPE_LABELS[message.contentType],
+    message.compressed ? '已压缩' : '',
+    message.totalFrames > 1 ? `${message.totalFrames} 段` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * 加密消息的组装、估算、发送与读取，只依赖 ethers 的 AbstractProvider 与 Signer。
+ * 发送过程中通过 gas / sent 事件报告每一段的进度，记录与展示由调用方决定。
+ */
+export const createMessagingClient = (provider: AbstractProvider): MessagingClient => {
+  const events = createEmitter<MessagingEvents>();
+
+  const compose = async ({
+    to: recipient,
+    content,
+    contentType,
+    attachment = null,
+    compress,
+    mode,
+    key,
+    value = 0n,
+    messenger = null,
+  }: MessageDraft): Promise<ComposedMessage> => {
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const to = await resolveRecipient(provider, chainId, recipient);
+    if (mode === 'ecies' && !key.trim()) {
+      throw new Error('请先恢复或填写接收方公钥');
+    }
+    if (mode === 'xor' && (attachment || contentType === 'binary')) {
+      throw new Error('异或模式没有完整性校验，附件与二进制内容请改用 AES-GCM 或 ECIES');
+    }
+    const messengerAddress = messenger === null ? null : getAddress(messenger.trim());
+    if (messengerAddress && value > 0n) {
+      throw new Error('Messenger 合约模式不支持附带 ETH');
+    }
+    const frames = await packMessage({
+      body: attachment ? encodeAttachment(attachment) : encodeContent(content, contentType),
+      contentType: attachment ? 'file' : contentType,
+      compress,
+      encrypt: encryptorFor(mode, key),
+    });
+    return {
+      to,
+      frames,
+      value,
+      messenger: messengerAddress,
+      requests: buildFrameRequests(to, frames, value, messengerAddress),
+    };
+  };
+
+  const estimate = async (message: ComposedMessage, from?: string) => {
+    const estimates: GasEstimate[] = [];
+    for (const { request, payloadBytes } of message.requests) {
+      estimates.push(await estimateGasLimit(provider, { ...request, from }, payloadBytes));
+    }
+    return estimates;
+  };
+
+  // 多段消息按顺序发送，任意一段失败即停止，已发出的交易仍通过 sent 事件交给调用方
+  const send = async (
+    message: ComposedMessage,
+    { signer, fees, gasLimitOverride = null }: SendOptions,
+  ) => {
+    const from = await signer.getAddress();
+    const total = message.requests.length;
+    const sent: TransactionResponse[] = [];
+    for (const [index, { request, payloadBytes }] of message.requests.entries()) {
+      let gasLimit = gasLimitOverride;
+      if (gasLimit === null) {
+        const result = await estimateGasLimit(provider, { ...request, from }, payloadBytes);
+        events.emit('gas', { index, total, estimate: result });
+        gasLimit = result.gasLimit;
+      }
+      const tx = await signer.sendTransaction({ ...request, gasLimit, ...fees });
+      sent.push(tx);
+      events.emit('sent', { tx, index, total });
+    }
+    return sent;
+  };
+
+  const lookup = async (hash: string, sources: AbiSource[] = []): Promise<LookupResult> => {
+    const tx = await provider.getTransaction(hash);
+    if (!tx) {
+      throw new Error('未找到交易');
+    }
+    const receipt = await provider.getTransactionReceipt(hash);
+    // 经 Messenger 合约发送的消息从 Message 事件（或 postMessage 调用）中取出 payload
+    const messengerCall = decodeMessengerTx(tx, receipt?.logs);
+    return {
+      tx,
+      receipt,
+      info: {
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to,
+        valueEth: formatEther(tx.value),
+        data: messengerCall?.payload ?? (tx.data || '0x'),
+        blockNumber: receipt?.blockNumber ?? tx.blockNumber ?? null,
+        status: receipt?.status ?? null,
+        messageTo: messengerCall?.to ?? null,
+      },
+      decoded: await decodeTransaction(provider, sources, tx, receipt),
+    };
+  };
+
+  /** 帧 > 裸信封 > 旧版异或；无法识别为加密消息时返回 null，密钥不匹配时抛错。 */
+  const decryptPayload = async (
+    data: string,
+    keys: MessageKeys,
+    extraHashes: string[] = [],
+  ): Promise<DecryptedPayload | null> => {
+    const kind = classifyPayload(data);
+    if (kind === 'framed') {
+      const frame = parseFrame(data);
+      const frames = [frame];
+      if (frame.total > 1) {
+        for (const extraHash of extraHashes) {
+          const extra = await provider.getTransaction(extraHash);
+          const extraData = extra ? decodeMessengerTx(extra)?.payload ?? extra.data : '0x';
+          if (isFramedPayload(extraData)) {
+            const extraFrame = parseFrame(extraData);
+            if (extraFrame.messageId === frame.messageId) {
+              frames.push(extraFrame);
+            }
+          }
+        }
+      }
+      const message = await readFramedMessage(frames, keys);
+      return { ...message, totalFrames: frame.total, format: 'framed', algorithm: null };
+    }
+    if (kind === 'envelope') {
+      const info = describeCipherHex(data);
+      const message = await readRawMessage(data, keys);
+      return {
+        ...message,
+        totalFrames: 1,
+        format: 'envelope',
+        algorithm: info.kind === 'envelope' ? info.algorithm : null,
+      };
+    }
+    // 无法识别格式时仅尝试旧版异或，兼容早期上链的消息
+    try {
+      const legacy = await readRawMessage(data, { passphrases: keys.passphrases });
+      return { ...legacy, totalFrames: 1, format: 'legacy', algorithm: null };
+    } catch {
+      return null;
+    }
+  };
+
+  /** 查询交易并尝试解密 data；额外的哈希作为同一条分段消息的其余段。 */
+  const read = async (
+    hash: string,
+    { keys, extraHashes = [], sources = [] }: ReadOptions,
+  ): Promise<ReadResult> => {
+    const result = await lookup(hash, sources);
+    if (result.info.data === '0x') {
+      return { ...result, message: null, error: null };
+    }
+    try {
+      const message = await decryptPayload(result.info.data, await keys(result.info), extraHashes);
+      return { ...result, message, error: null };
+    } catch (err) {
+      return {
+        ...result,
+        message: null,
+        error: err instanceof Error ? err.message : '无法用当前密钥解密',
+      };
+    }
+  };
+
+  return { provider, on: events.on, compose, estimate, send, lookup, decryptPayload, read };
+};
@@ -0,0 +1,139 @@
+import { Contract, ContractFactory, Interface, dataLength, getAddress } from 'ethers';
+import type { Log, Provider, Signer } from 'ethers';
+
+/** contracts/Messenger.sol 的 ABI。 */
+export const MESSENGER_ABI = [
+  'event Message(address indexed from, address indexed to, bytes payload)',
+  'function postMessage(address to, bytes payload)',
+];
+
+// solc 0.8.24，optimizer runs=200，evmVersion=paris
+export const MESSENGER_BYTECODE =
+  '0x608060405234801561001057600080fd5b5061018d806100206000396000f3fe608060405234801561001057600080fd5b506004361061002b5760003560e01c80631091d37a14610030575b600080fd5b61004361003e366004610097565b610045565b005b826001600160a01b0316336001600160a01b03167f24cfd3ed6f64f88075a1f15540139e65963e8219cd00965c7b9ae198d4e4fc1a848460405161008a929190610128565b60405180910390a3505050565b6000806000604084860312156100ac57600080fd5b83356001600160a01b03811681146100c357600080fd5b9250602084013567ffffffffffffffff808211156100e057600080fd5b818601915086601f8301126100f457600080fd5b81358181111561010357600080fd5b87602082850101111561011557600080fd5b6020830194508093505050509250925092565b60208152816020820152818360408301376000818301604090810191909152601f909201601f1916010191905056fea2646970667358221220c9653b8bdccc74d6749c586a2ae55d5f8f4af7708685b34b327cd1bc02ea704164736f6c63430008180033';
+
+export const messengerInterface = new Interface(MESSENGER_ABI);
+
+export type MessengerMessage = {
+  hash: string;
+  logIndex: number;
+  blockNumber: number;
+  from: string;
+  to: string;
+  payload: string;
+};
+
+export type MessengerCall = {
+  to: string;
+  payload: string;
+  source: 'log' | 'calldata';
+};
+
+const STORAGE_PREFIX = 'sepolia-ethers:messenger';
+// 多数公共 RPC 对 eth_getLogs 的区块跨度有限制
+export const LOG_WINDOW = 2000;
+
+export const loadMessengerAddress = (chainId: number): string =>
+  localStorage.getItem(`${STORAGE_PREFIX}:${chainId}`) ?? '';
+
+export const saveMessengerAddress = (chainId: number, address: string) => {
+  localStorage.setItem(`${STORAGE_PREFIX}:${chainId}`, getAddress(address));
+};
+
+export const deployMessenger = async (signer: Signer): Promise<string> => {
+  const factory = new ContractFactory(MESSENGER_ABI, MESSENGER_BYTECODE, signer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return contract.getAddress();
+};
+
+export const encodePostMessage = (to: string, payload: string): string =>
+  messengerInterface.encodeFunctionData('postMessage', [to, payload]);
+
+/**
+ * 把消息帧组装为交易：直发时 to 为接收方，转账金额只随第一段发送；
+ * Messenger 模式下调用 postMessage，payloadBytes 用于估算失败时推算 Gas。
+ */
+export const buildFrameRequests = (
+  to: string,
+  frames: string[],
+  value: bigint,
+  messenger: string | null,
+) =>
+  frames.map((data, index) =>
+    messenger
+      ? {
+          request: { to: messenger, value: 0n, data: encodePostMessage(to, data) },
+          payloadBytes: dataLength(data),
+        }
+      : { request: { to, value: index === 0 ? value : 0n, data }, payloadBytes: 0 },
+  );
+
+export const decodePostMessage = (data: string): { to: string; payload: string } | null => {
+  try {
+    const parsed = messengerInterface.parseTransaction({ data });
+    if (!parsed || parsed.name !== 'postMessage') {
+      return null;
+    }
+    return { to: parsed.args.to, payload: parsed.args.payload };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 解析一笔交易中的 Messenger 消息：优先使用回执里目标合约发出的 Message 事件，
+ * 交易未上链或没有事件时退回到 calldata 解码。
+ */
+export const decodeMessengerTx = (
+  tx: { to: string | null; data: string },
+  logs: readonly Log[] = [],
+): MessengerCall | null => {
+  const contract = tx.to?.toLowerCase();
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== contract) continue;
+    const parsed = messengerInterface.parseLog(log);
+    if (parsed?.name === 'Message') {
+      return { to: parsed.args.to, payload: parsed.args.payload, source: 'log' };
+    }
+  }
+  const call = decodePostMessage(tx.data);
+  return call ? { ...call, source: 'calldata' } : null;
+};
+
+/** 通过事件过滤器读取 [fromBlock, toBlock] 内的消息，按 LOG_WINDOW 分批请求。 */
+export const fetchMessengerMessages = async ({
+  provider,
+  contractAddress,
+  from,
+  to,
+  fromBlock,
+  toBlock,
+}: {
+  provider: Provider;
+  contractAddress: string;
+  from?: string;
+  to?: string;
+  fromBlock: number;
+  toBlock: number;
+}): Promise<MessengerMessage[]> => {
+  const contract = new Contract(getAddress(contractAddress), MESSENGER_ABI, provider);
+  const filter = contract.filters.Message(from ?? null, to ?? null);
+  const messages: MessengerMessage[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_WINDOW) {
+    const end = Math.min(start + LOG_WINDOW - 1, toBlock);
+    const logs = await contract.queryFilter(filter, start, end);
+    logs.forEach((log) => {
+      const parsed = messengerInterface.parseLog(log);
+      if (!parsed) return;
+      messages.push({
+        hash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        from: parsed.args.from,
+        to: parsed.args.to,
+        payload: parsed.args.payload,
+      });
+    });
+  }
+  return messages;
+};
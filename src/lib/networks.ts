@@ -0,0 +1,293 @@
+export type NativeCurrency = {
+  name: string;
+  symbol: string;
+  decimals: number;
+};
+
+export type NetworkConfig = {
+  chainId: number;
+  hex: string;
+  name: string;
+  rpcUrls: string[];
+  blockExplorerUrls: string[];
+  nativeCurrency: NativeCurrency;
+  custom?: boolean;
+};
+
+/** wallet_addEthereumChain（EIP-3085）要求的参数格式。 */
+export type AddEthereumChainParameter = {
+  chainId: string;
+  chainName: string;
+  rpcUrls: string[];
+  blockExplorerUrls?: string[];
+  nativeCurrency: NativeCurrency;
+};
+
+const STORAGE_KEY = 'sepolia-ethers:networks';
+
+const ETH = (name: string): NativeCurrency => ({ name, symbol: 'ETH', decimals: 18 });
+
+export const LOCAL_CHAIN_ID = 31337;
+
+export const PRESET_NETWORKS: NetworkConfig[] = [
+  {
+    chainId: 11155111,
+    hex: '0xaa36a7',
+    name: 'Sepolia',
+    rpcUrls: [
+      'https://ethereum-sepolia-rpc.publicnode.com',
+      'https://sepolia.drpc.org',
+      'https://1rpc.io/sepolia',
+    ],
+    blockExplorerUrls: ['https://sepolia.etherscan.io'],
+    nativeCurrency: ETH('SepoliaETH'),
+  },
+  {
+    chainId: 1,
+    hex: '0x1',
+    name: 'Ethereum Mainnet',
+    rpcUrls: [
+      'https://ethereum-rpc.publicnode.com',
+      'https://eth.drpc.org',
+      'https://1rpc.io/eth',
+    ],
+    blockExplorerUrls: ['https://etherscan.io'],
+    nativeCurrency: ETH('Ether'),
+  },
+  {
+    chainId: 17000,
+    hex: '0x4268',
+    name: 'Holesky',
+    rpcUrls: ['https://ethereum-holesky-rpc.publicnode.com', 'https://holesky.drpc.org'],
+    blockExplorerUrls: ['https://holesky.etherscan.io'],
+    nativeCurrency: ETH('Holesky Ether'),
+  },
+  {
+    chainId: 84532,
+    hex: '0x14a34',
+    name: 'Base Sepolia',
+    rpcUrls: ['https://sepolia.base.org', 'https://base-sepolia-rpc.publicnode.com'],
+    blockExplorerUrls: ['https://sepolia.basescan.org'],
+    nativeCurrency: ETH('Sepolia Ether'),
+  },
+  {
+    chainId: 11155420,
+    hex: '0xaa37dc',
+    name: 'OP Sepolia',
+    rpcUrls: ['https://sepolia.optimism.io', 'https://optimism-sepolia-rpc.publicnode.com'],
+    blockExplorerUrls: ['https://sepolia-optimism.etherscan.io'],
+    nativeCurrency: ETH('Sepolia Ether'),
+  },
+  {
+    chainId: 421614,
+    hex: '0x66eee',
+    name: 'Arbitrum Sepolia',
+    rpcUrls: [
+      'https://sepolia-rollup.arbitrum.io/rpc',
+      'https://arbitrum-sepolia-rpc.publicnode.com',
+    ],
+    blockExplorerUrls: ['https://sepolia.arbiscan.io'],
+    nativeCurrency: ETH('Sepolia Ether'),
+  },
+  {
+    chainId: LOCAL_CHAIN_ID,
+    hex: '0x7a69',
+    name: 'Anvil / Hardhat (本地)',
+    rpcUrls: ['http://127.0.0.1:8545'],
+    blockExplorerUrls: [],
+    nativeCurrency: ETH('Ether'),
+  },
+];
+
+const isUrl = (value: string, protocols: string[]) => {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const toStringList = (value: unknown, field: string): string[] => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every((item) => typeof item === 'string')) {
+    throw new Error(`${field} 必须是字符串或字符串数组`);
+  }
+  return list.map((item: string) => item.trim()).filter(Boolean);
+};
+
+/**
+ * 校验用户输入或导入的网络配置：chainId 为正整数且与 hex 一致，RPC 只允许 http(s)/ws(s)，
+ * 浏览器地址只允许 https（本地地址除外）。
+ */
+export const validateNetwork = (input: unknown): NetworkConfig => {
+  if (!input || typeof input !== 'object') {
+    throw new Error('网络配置必须是对象');
+  }
+  const raw = input as Record<string, unknown>;
+  const chainId = typeof raw.chainId === 'string' ? Number(raw.chainId) : raw.chainId;
+  if (typeof chainId !== 'number' || !Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error('chainId 必须是正整数');
+  }
+  const expectedHex = `0x${chainId.toString(16)}`;
+  if (raw.hex !== undefined && raw.hex !== '') {
+    if (typeof raw.hex !== 'string' || !/^0x[0-9a-fA-F]+$/.test(raw.hex)) {
+      throw new Error('hex 必须是 0x 开头的 16 进制字符串');
+    }
+    if (parseInt(raw.hex, 16) !== chainId) {
+      throw new Error(`hex ${raw.hex} 与 chainId ${chainId} 不一致`);
+    }
+  }
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    throw new Error('网络名称不能为空');
+  }
+  const rpcUrls = toStringList(raw.rpcUrls, 'rpcUrls');
+  if (rpcUrls.length === 0) {
+    throw new Error('至少需要一个 RPC 地址');
+  }
+  const badRpc = rpcUrls.find((url) => !isUrl(url, ['http:', 'https:', 'ws:', 'wss:']));
+  if (badRpc) {
+    throw new Error(`RPC 地址不合法: ${badRpc}`);
+  }
+  const blockExplorerUrls = toStringList(raw.blockExplorerUrls, 'blockExplorerUrls');
+  const badExplorer = blockExplorerUrls.find(
+    (url) => !isUrl(url, ['https:']) && !/^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?/.test(url),
+  );
+  if (badExplorer) {
+    throw new Error(`区块浏览器地址需要 https: ${badExplorer}`);
+  }
+  const currency = (raw.nativeCurrency ?? {}) as Partial<NativeCurrency>;
+  const symbol = typeof currency.symbol === 'string' ? currency.symbol.trim() : 'ETH';
+  const currencyName = typeof currency.name === 'string' ? currency.name.trim() : '';
+  if (symbol.length < 2 || symbol.length > 6) {
+    throw new Error('原生代币符号长度需为 2-6 个字符');
+  }
+  const decimals = currency.decimals ?? 18;
+  if (decimals !== 18) {
+    throw new Error('原生代币精度必须为 18');
+  }
+  return {
+    chainId,
+    hex: expectedHex,
+    name,
+    rpcUrls,
+    blockExplorerUrls,
+    nativeCurrency: {
+      name: currencyName || symbol,
+      symbol,
+      decimals,
+    },
+    custom: true,
+  };
+};
+
+export const loadCustomNetworks = (): NetworkConfig[] => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    // 逐条校验，某一条损坏时只丢弃它，不影响其他自定义网络
+    return parsed.flatMap((entry) => {
+      try {
+        return [validateNetwork(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomNetworks = (networks: NetworkConfig[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(networks.filter((network) => network.custom)));
+};
+
+/** 预置网络在前，用户添加的网络在后。 */
+export const loadNetworks = (): NetworkConfig[] => {
+  const presetIds = new Set(PRESET_NETWORKS.map((network) => network.chainId));
+  return [
+    ...PRESET_NETWORKS,
+    ...loadCustomNetworks().filter((network) => !presetIds.has(network.chainId)),
+  ];
+};
+
+export const findNetwork = (networks: NetworkConfig[], chainId: number | null) =>
+  networks.find((network) => network.chainId === chainId);
+
+export const addCustomNetwork = (networks: NetworkConfig[], input: unknown): NetworkConfig[] => {
+  const network = validateNetwork(input);
+  if (findNetwork(networks, network.chainId)) {
+    throw new Error(`链 ID ${network.chainId} 已存在`);
+  }
+  const next = [...networks, network];
+  saveCustomNetworks(next);
+  return next;
+};
+
+export const removeCustomNetwork = (networks: NetworkConfig[], chainId: number): NetworkConfig[] => {
+  const next = networks.filter((network) => !(network.custom && network.chainId === chainId));
+  saveCustomNetworks(next);
+  return next;
+};
+
+export const exportNetworks = (networks: NetworkConfig[]): string =>
+  JSON.stringify(
+    networks
+      .filter((network) => network.custom)
+      .map(({ chainId, hex, name, rpcUrls, blockExplorerUrls, nativeCurrency }) => ({
+        chainId,
+        hex,
+        name,
+        rpcUrls,
+        blockExplorerUrls,
+        nativeCurrency,
+      })),
+    null,
+    2,
+  );
+
+/** 导入 JSON 数组，已存在的 chainId 会被自定义配置覆盖（预置网络除外）。 */
+export const importNetworks = (
+  networks: NetworkConfig[],
+  json: string,
+): { networks: NetworkConfig[]; imported: number } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('导入内容不是合法的 JSON');
+  }
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  const imported = list.map(validateNetwork);
+  const presetIds = new Set(PRESET_NETWORKS.map((network) => network.chainId));
+  const conflict = imported.find((network) => presetIds.has(network.chainId));
+  if (conflict) {
+    throw new Error(`不能覆盖预置网络 ${conflict.chainId}`);
+  }
+  const importedIds = new Set(imported.map((network) => network.chainId));
+  const next = [
+    ...networks.filter((network) => !importedIds.has(network.chainId)),
+    ...imported,
+  ];
+  saveCustomNetworks(next);
+  return { networks: next, imported: imported.length };
+};
+
+export const toAddEthereumChainParams = (network: NetworkConfig): AddEthereumChainParameter => ({
+  chainId: network.hex,
+  chainName: network.name,
+  rpcUrls: network.rpcUrls,
+  ...(network.blockExplorerUrls.length > 0
+    ? { blockExplorerUrls: network.blockExplorerUrls }
+    : {}),
+  nativeCurrency: network.nativeCurrency,
+});
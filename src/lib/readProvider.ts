@@ -0,0 +1,29 @@
+import { FallbackProvider, JsonRpcProvider, Network } from 'ethers';
+import type { AbstractProvider } from 'ethers';
+import type { NetworkConfig } from './networks';
+
+const HTTP_RPC = /^https?:\/\//i;
+
+/**
+ * 根据网络注册表里的 rpcUrls 构建只读 Provider：单个 RPC 直接使用 JsonRpcProvider，
+ * 多个 RPC 组成 quorum=1 的 FallbackProvider，按顺序优先、失败时自动切换。
+ * 使用 staticNetwork 避免每次请求前重复探测 chainId。
+ */
+export const createReadProvider = (network: NetworkConfig): AbstractProvider => {
+  const urls = network.rpcUrls.filter((url) => HTTP_RPC.test(url));
+  if (urls.length === 0) {
+    throw new Error(`${network.name} 没有可用的 HTTP RPC 地址`);
+  }
+  const staticNetwork = Network.from(network.chainId);
+  const providers = urls.map(
+    (url) => new JsonRpcProvider(url, staticNetwork, { staticNetwork }),
+  );
+  if (providers.length === 1) {
+    return providers[0];
+  }
+  return new FallbackProvider(
+    providers.map((provider, index) => ({ provider, priority: index + 1, weight: 1 })),
+    staticNetwork,
+    { quorum: 1 },
+  );
+};
@@ -0,0 +1,257 @@
+import { getAddress, verifyMessage } from 'ethers';
+
+/** EIP-4361 消息字段，时间均为 ISO 8601 字符串。 */
+export type SiweFields = {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+};
+
+export type SiweCheck = {
+  label: string;
+  ok: boolean;
+  detail: string;
+};
+
+export type SignatureVerification = {
+  recovered: string;
+  siwe: SiweFields | null;
+  checks: SiweCheck[];
+  valid: boolean;
+};
+
+export type SiweExpectations = {
+  domain?: string;
+  chainId?: number | null;
+  address?: string;
+  now?: Date;
+};
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+// 允许客户端与服务端之间少量时钟偏差
+const CLOCK_SKEW_MS = 60_000;
+
+const OPTIONAL_FIELDS: [keyof SiweFields, string][] = [
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+/** EIP-4361 要求 nonce 至少 8 位字母数字。 */
+export const generateNonce = (length = 16) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), (byte) =>
+    NONCE_ALPHABET.charAt(byte % NONCE_ALPHABET.length),
+  ).join('');
+
+const isIsoDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+  !Number.isNaN(Date.parse(value));
+
+const validateFields = (fields: SiweFields) => {
+  if (!fields.domain.trim() || /\s/.test(fields.domain)) {
+    throw new Error('domain 不能为空且不能包含空白');
+  }
+  if (fields.address !== getAddress(fields.address)) {
+    throw new Error('address 必须是 EIP-55 校验和格式');
+  }
+  if (fields.statement?.includes('\n')) {
+    throw new Error('statement 不能换行');
+  }
+  try {
+    new URL(fields.uri);
+  } catch {
+    throw new Error('URI 不合法');
+  }
+  if (fields.version !== '1') {
+    throw new Error('仅支持 Version 1');
+  }
+  if (!Number.isSafeInteger(fields.chainId) || fields.chainId <= 0) {
+    throw new Error('Chain ID 必须是正整数');
+  }
+  if (!/^[A-Za-z0-9]{8,}$/.test(fields.nonce)) {
+    throw new Error('nonce 需为至少 8 位字母数字');
+  }
+  const dates = [fields.issuedAt, fields.expirationTime, fields.notBefore];
+  if (dates.some((value) => value !== undefined && !isIsoDate(value))) {
+    throw new Error('时间字段需为 ISO 8601 格式');
+  }
+};
+
+/** 按 EIP-4361 的 ABNF 拼装待签名文本。 */
+export const buildSiweMessage = (fields: SiweFields): string => {
+  validateFields(fields);
+  const prefix = fields.scheme ? `${fields.scheme}://${fields.domain}` : fields.domain;
+  const lines = [`${prefix}${HEADER_SUFFIX}`, fields.address, ''];
+  if (fields.statement) {
+    lines.push(fields.statement);
+  }
+  lines.push(
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  );
+  OPTIONAL_FIELDS.forEach(([key, label]) => {
+    if (fields[key]) lines.push(`${label}: ${fields[key]}`);
+  });
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join('\n');
+};
+
+/** 不是 SIWE 格式时返回 null，格式像 SIWE 但字段不合法时抛错。 */
+export const parseSiweMessage = (message: string): SiweFields | null => {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+    return null;
+  }
+  const origin = lines[0].slice(0, -HEADER_SUFFIX.length);
+  const schemeMatch = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/(.+)$/.exec(origin);
+  const address = lines[1] ?? '';
+  if (lines[2] !== '') {
+    throw new Error('SIWE 消息格式不正确：地址后缺少空行');
+  }
+  let cursor = 3;
+  let statement: string | undefined;
+  if (lines[cursor] !== '') {
+    statement = lines[cursor];
+    cursor += 1;
+  }
+  if (lines[cursor] !== '') {
+    throw new Error('SIWE 消息格式不正确：statement 后缺少空行');
+  }
+  cursor += 1;
+  const values = new Map<string, string>();
+  const resources: string[] = [];
+  for (; cursor < lines.length; cursor += 1) {
+    const line = lines[cursor];
+    if (line === 'Resources:') {
+      resources.push(
+        ...lines.slice(cursor + 1).map((item) => {
+          if (!item.startsWith('- ')) throw new Error('Resources 列表格式不正确');
+          return item.slice(2);
+        }),
+      );
+      break;
+    }
+    const separator = line.indexOf(': ');
+    if (separator < 0) {
+      throw new Error(`无法解析的行: ${line}`);
+    }
+    values.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+  const required = (label: string) => {
+    const value = values.get(label);
+    if (value === undefined) throw new Error(`SIWE 消息缺少 ${label}`);
+    return value;
+  };
+  let checksummed: string;
+  try {
+    checksummed = getAddress(address);
+  } catch {
+    throw new Error('SIWE 消息中的地址不合法');
+  }
+  if (checksummed !== address) {
+    throw new Error('SIWE 消息中的地址不是 EIP-55 校验和格式');
+  }
+  const fields: SiweFields = {
+    ...(schemeMatch ? { scheme: schemeMatch[1] } : {}),
+    domain: schemeMatch ? schemeMatch[2] : origin,
+    address,
+    statement,
+    uri: required('URI'),
+    version: required('Version'),
+    chainId: Number(required('Chain ID')),
+    nonce: required('Nonce'),
+    issuedAt: required('Issued At'),
+    expirationTime: values.get('Expiration Time'),
+    notBefore: values.get('Not Before'),
+    requestId: values.get('Request ID'),
+    resources: resources.length > 0 ? resources : undefined,
+  };
+  validateFields(fields);
+  return fields;
+};
+
+/**
+ * 用 verifyMessage 恢复签名者，再逐项检查：签名者与消息中的地址、domain、链 ID、
+ * 签发时间、过期时间与生效时间。普通 personal_sign 消息只检查签名者。
+ */
+export const verifySignedMessage = (
+  message: string,
+  signature: string,
+  expectations: SiweExpectations = {},
+): SignatureVerification => {
+  let recovered: string;
+  try {
+    recovered = verifyMessage(message, signature.trim());
+  } catch {
+    throw new Error('签名格式不正确，无法恢复签名地址');
+  }
+  const siwe = parseSiweMessage(message);
+  const now = (expectations.now ?? new Date()).getTime();
+  const checks: SiweCheck[] = [];
+  if (expectations.address?.trim()) {
+    const expected = getAddress(expectations.address.trim());
+    checks.push({
+      label: '预期签名者',
+      ok: expected === recovered,
+      detail: `期望 ${expected}`,
+    });
+  }
+  if (siwe) {
+    checks.push({
+      label: '签名者与消息地址一致',
+      ok: siwe.address === recovered,
+      detail: siwe.address,
+    });
+    if (expectations.domain) {
+      checks.push({
+        label: 'domain',
+        ok: siwe.domain === expectations.domain,
+        detail: `消息 ${siwe.domain}，当前 ${expectations.domain}`,
+      });
+    }
+    if (expectations.chainId) {
+      checks.push({
+        label: '链 ID',
+        ok: siwe.chainId === expectations.chainId,
+        detail: `消息 ${siwe.chainId}，当前 ${expectations.chainId}`,
+      });
+    }
+    checks.push({
+      label: '签发时间',
+      ok: Date.parse(siwe.issuedAt) <= now + CLOCK_SKEW_MS,
+      detail: siwe.issuedAt,
+    });
+    if (siwe.expirationTime) {
+      checks.push({
+        label: '未过期',
+        ok: Date.parse(siwe.expirationTime) > now,
+        detail: siwe.expirationTime,
+      });
+    }
+    if (siwe.notBefore) {
+      checks.push({
+        label: '已生效',
+        ok: Date.parse(siwe.notBefore) <= now + CLOCK_SKEW_MS,
+        detail: siwe.notBefore,
+      });
+    }
+  }
+  return { recovered, siwe, checks, valid: checks.every((check) => check.ok) };
+};
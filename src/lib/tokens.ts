@@ -0,0 +1,159 @@
+import { Contract, Interface, ZeroAddress, getAddress, parseUnits } from 'ethers';
+import type { AbstractProvider } from 'ethers';
+
+/** ERC-20 中本页面用到的最小 ABI。 */
+export const ERC20_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+];
+
+export const erc20Interface = new Interface(ERC20_ABI);
+
+export type TokenInfo = {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+};
+
+const STORAGE_PREFIX = 'sepolia-ethers:tokens';
+
+const storageKey = (chainId: number) => `${STORAGE_PREFIX}:${chainId}`;
+
+export const loadTokens = (chainId: number): TokenInfo[] => {
+  const raw = localStorage.getItem(storageKey(chainId));
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as TokenInfo[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveTokens = (chainId: number, tokens: TokenInfo[]) => {
+  localStorage.setItem(storageKey(chainId), JSON.stringify(tokens));
+  return tokens;
+};
+
+/** 在链上读取 symbol / name / decimals，确认地址确实是 ERC-20 合约。 */
+export const readTokenInfo = async (
+  provider: AbstractProvider,
+  chainId: number,
+  input: string,
+): Promise<TokenInfo> => {
+  let address: string;
+  try {
+    address = getAddress(input.trim());
+  } catch {
+    throw new Error('代币合约地址不合法');
+  }
+  if ((await provider.getCode(address)) === '0x') {
+    throw new Error('该地址在当前网络上没有合约代码');
+  }
+  const contract = new Contract(address, ERC20_ABI, provider);
+  try {
+    const [symbol, decimals, name] = await Promise.all([
+      contract.symbol() as Promise<string>,
+      contract.decimals() as Promise<bigint>,
+      (contract.name() as Promise<string>).catch(() => ''),
+    ]);
+    return { chainId, address, name: name || symbol, symbol, decimals: Number(decimals) };
+  } catch {
+    throw new Error('无法读取 symbol / decimals，可能不是 ERC-20 合约');
+  }
+};
+
+export const addToken = async (
+  provider: AbstractProvider,
+  chainId: number,
+  input: string,
+): Promise<TokenInfo[]> => {
+  const token = await readTokenInfo(provider, chainId, input);
+  const tokens = loadTokens(chainId);
+  if (tokens.some((item) => item.address === token.address)) {
+    throw new Error(`${token.symbol} 已在列表中`);
+  }
+  return saveTokens(chainId, [...tokens, token]);
+};
+
+export const removeToken = (chainId: number, address: string): TokenInfo[] =>
+  saveTokens(
+    chainId,
+    loadTokens(chainId).filter((token) => token.address !== address),
+  );
+
+/** 单个代币读取失败（例如合约已自毁）只记为 null，不影响其余代币。 */
+export const fetchTokenBalances = async (
+  provider: AbstractProvider,
+  tokens: TokenInfo[],
+  owner: string,
+): Promise<Record<string, bigint | null>> => {
+  const entries = await Promise.all(
+    tokens.map(async (token) => {
+      try {
+        const contract = new Contract(token.address, ERC20_ABI, provider);
+        return [token.address, (await contract.balanceOf(owner)) as bigint] as const;
+      } catch {
+        return [token.address, null] as const;
+      }
+    }),
+  );
+  return Object.fromEntries(entries);
+};
+
+export const parseTokenAmount = (token: TokenInfo, amount: string): bigint => {
+  const trimmed = amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+    throw new Error('请输入正确的代币数量');
+  }
+  const fraction = trimmed.split('.')[1] ?? '';
+  if (fraction.length > token.decimals) {
+    throw new Error(`${token.symbol} 最多支持 ${token.decimals} 位小数`);
+  }
+  const value = parseUnits(trimmed, token.decimals);
+  if (value === 0n) {
+    throw new Error('转账数量必须大于 0');
+  }
+  return value;
+};
+
+/** 校验收款地址与余额后，返回 transfer 调用的交易请求。 */
+export const buildTokenTransfer = async (
+  provider: AbstractProvider,
+  token: TokenInfo,
+  from: string,
+  recipient: string,
+  amount: string,
+) => {
+  let to: string;
+  try {
+    to = getAddress(recipient.trim());
+  } catch {
+    throw new Error('收款地址不合法');
+  }
+  if (to === ZeroAddress) {
+    throw new Error('不能转账到零地址');
+  }
+  if (to === token.address) {
+    throw new Error('收款地址不能是代币合约本身');
+  }
+  const value = parseTokenAmount(token, amount);
+  const contract = new Contract(token.address, ERC20_ABI, provider);
+  const balance = (await contract.balanceOf(from)) as bigint;
+  if (balance < value) {
+    throw new Error(`${token.symbol} 余额不足`);
+  }
+  return {
+    to: token.address,
+    value: 0n,
+    data: erc20Interface.encodeFunctionData('transfer', [to, value]),
+  };
+};
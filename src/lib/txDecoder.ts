@@ -0,0 +1,241 @@
+import { Interface, dataSlice, isHexString } from 'ethers';
+import type {
+  AbstractProvider,
+  Log,
+  TransactionReceipt,
+  TransactionResponse,
+} from 'ethers';
+import { ERC20_ABI } from './tokens';
+import { MESSENGER_ABI } from './messenger';
+import { loadSavedContracts, parseAbi, toPlain } from './contracts';
+
+export type AbiSource = {
+  label: string;
+  iface: Interface;
+  address?: string;
+};
+
+export type DecodedCall = {
+  source: string;
+  name: string;
+  signature: string;
+  args: unknown;
+};
+
+export type DecodedLog = {
+  index: number;
+  address: string;
+  event: DecodedCall | null;
+  topics: readonly string[];
+  data: string;
+};
+
+export type FeeInfo = {
+  gasLimit: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  feeWei: bigint;
+};
+
+export type DecodedTransaction = {
+  selector: string | null;
+  call: DecodedCall | null;
+  logs: DecodedLog[];
+  fee: FeeInfo | null;
+  revertReason: string | null;
+};
+
+// 常见标准的 ABI，ERC-721 的 Transfer 与 ERC-20 同名但 tokenId 为 indexed，按 topic 数量区分
+const BUNDLED_ABIS: { label: string; abi: string[] }[] = [
+  {
+    label: 'ERC-20',
+    abi: [
+      ...ERC20_ABI,
+      'function approve(address spender, uint256 amount) returns (bool)',
+      'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+      'function allowance(address owner, address spender) view returns (uint256)',
+      'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    ],
+  },
+  {
+    label: 'ERC-721',
+    abi: [
+      'function safeTransferFrom(address from, address to, uint256 tokenId)',
+      'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+      'function setApprovalForAll(address operator, bool approved)',
+      'function ownerOf(uint256 tokenId) view returns (address)',
+      'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+      'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+    ],
+  },
+  {
+    label: 'WETH',
+    abi: [
+      'function deposit() payable',
+      'function withdraw(uint256 amount)',
+      'event Deposit(address indexed dst, uint256 wad)',
+      'event Withdrawal(address indexed src, uint256 wad)',
+    ],
+  },
+  { label: 'Messenger', abi: MESSENGER_ABI },
+];
+
+const bundledSources: AbiSource[] = BUNDLED_ABIS.map(({ label, abi }) => ({
+  label,
+  iface: new Interface(abi),
+}));
+
+/**
+ * 解码时依次尝试：用户临时粘贴的 ABI → 合约控制台里保存的当前链合约 → 内置标准 ABI。
+ * 保存的合约带地址，优先匹配地址一致的那个。
+ */
+export const collectAbiSources = (chainId: number | null, extraAbi = ''): AbiSource[] => {
+  const sources: AbiSource[] = [];
+  if (extraAbi.trim()) {
+    sources.push({ label: '自定义 ABI', iface: parseAbi(extraAbi) });
+  }
+  if (chainId) {
+    loadSavedContracts(chainId).forEach((contract) => {
+      try {
+        sources.push({ label: contract.name, iface: parseAbi(contract.abi), address: contract.address });
+      } catch {
+        // 损坏的保存项直接跳过
+      }
+    });
+  }
+  return [...sources, ...bundledSources];
+};
+
+const orderFor = (sources: AbiSource[], address: string | null | undefined) => {
+  const target = address?.toLowerCase();
+  return [
+    ...sources.filter((source) => source.address?.toLowerCase() === target),
+    ...sources.filter((source) => source.address?.toLowerCase() !== target),
+  ];
+};
+
+export const decodeCalldata = (
+  sources: AbiSource[],
+  to: string | null,
+  data: string,
+  value = 0n,
+): DecodedCall | null => {
+  if (!isHexString(data) || data.length < 10) {
+    return null;
+  }
+  for (const source of orderFor(sources, to)) {
+    try {
+      const parsed = source.iface.parseTransaction({ data, value });
+      if (parsed) {
+        return {
+          source: source.label,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: toPlain(parsed.args),
+        };
+      }
+    } catch {
+      // selector 相同但参数解码失败，换下一个 ABI
+    }
+  }
+  return null;
+};
+
+export const decodeReceiptLogs = (sources: AbiSource[], logs: readonly Log[]): DecodedLog[] =>
+  logs.map((log) => {
+    let event: DecodedCall | null = null;
+    for (const source of orderFor(sources, log.address)) {
+      try {
+        const parsed = source.iface.parseLog(log);
+        if (parsed) {
+          event = {
+            source: source.label,
+            name: parsed.name,
+            signature: parsed.signature,
+            args: toPlain(parsed.args),
+          };
+          break;
+        }
+      } catch {
+        // 同名事件 indexed 数量不同会解码失败
+      }
+    }
+    return { index: log.index, address: log.address, event, topics: log.topics, data: log.data };
+  });
+
+const describeCallError = (sources: AbiSource[], err: unknown): string => {
+  const { revert, data, shortMessage } = err as {
+    revert?: { name: string; args: unknown[] } | null;
+    data?: string | null;
+    shortMessage?: string;
+  };
+  if (revert) {
+    return `${revert.name}(${revert.args.map((arg) => JSON.stringify(toPlain(arg))).join(', ')})`;
+  }
+  if (data && isHexString(data) && data.length >= 10) {
+    for (const source of sources) {
+      try {
+        const parsed = source.iface.parseError(data);
+        if (parsed) {
+          return `${parsed.name}(${parsed.args.map((arg) => JSON.stringify(toPlain(arg))).join(', ')})`;
+        }
+      } catch {
+        // selector 匹配但参数编码不符，继续尝试其他 ABI，最后退回原始数据
+      }
+    }
+    return `未知错误，selector ${dataSlice(data, 0, 4)}，原始数据 ${data}`;
+  }
+  return shortMessage ?? (err instanceof Error ? err.message : '未知原因');
+};
+
+/**
+ * 失败交易（status 0）在上一区块结束时的状态上用 provider.call 重放以取得 revert data，
+ * 即交易所在区块开始前的状态；区块内排在它前面的交易不会被重放，所以结果只是尽力而为。
+ */
+export const explainRevert = async (
+  provider: AbstractProvider,
+  sources: AbiSource[],
+  tx: TransactionResponse,
+  receipt: TransactionReceipt,
+): Promise<string> => {
+  if (receipt.gasUsed === tx.gasLimit) {
+    return `Gas 耗尽（用满 Gas 上限 ${tx.gasLimit}）`;
+  }
+  try {
+    await provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      blockTag: Math.max(0, receipt.blockNumber - 1),
+    });
+    return '（尽力推断）在上一区块状态上重放未复现回滚，可能依赖同一区块内先前交易的状态';
+  } catch (err) {
+    return describeCallError(orderFor(sources, tx.to), err);
+  }
+};
+
+export const decodeTransaction = async (
+  provider: AbstractProvider,
+  sources: AbiSource[],
+  tx: TransactionResponse,
+  receipt: TransactionReceipt | null,
+): Promise<DecodedTransaction> => {
+  const selector = isHexString(tx.data) && tx.data.length >= 10 ? dataSlice(tx.data, 0, 4) : null;
+  return {
+    selector,
+    call: decodeCalldata(sources, tx.to, tx.data, tx.value),
+    logs: receipt ? decodeReceiptLogs(sources, receipt.logs) : [],
+    fee: receipt
+      ? {
+          gasLimit: tx.gasLimit,
+          gasUsed: receipt.gasUsed,
+          effectiveGasPrice: receipt.gasPrice,
+          feeWei: receipt.fee,
+        }
+      : null,
+    revertReason:
+      receipt && receipt.status === 0 ? await explainRevert(provider, sources, tx, receipt) : null,
+  };
+};
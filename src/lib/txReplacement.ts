@@ -0,0 +1,80 @@
+import type { FeeData, Signer, TransactionRequest, TransactionResponse } from 'ethers';
+import type { TxRecord } from './txStore';
+
+export type ReplacementAction = 'speed-up' | 'cancel';
+
+export type ReplacementFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+// 节点要求替换交易的费用至少提高 10%，这里取 12.5% 留出余量
+const BUMP_NUMERATOR = 1125n;
+const BUMP_DENOMINATOR = 1000n;
+const CANCEL_GAS_LIMIT = 21000n;
+
+const bump = (value: bigint) => (value * BUMP_NUMERATOR + BUMP_DENOMINATOR - 1n) / BUMP_DENOMINATOR;
+
+const max = (a: bigint, b: bigint | null | undefined) => (b != null && b > a ? b : a);
+
+/**
+ * 在原交易费用基础上按替换规则加价；如果当前网络建议费用更高，则直接使用建议值。
+ * EIP-1559 交易需要同时提高 maxFeePerGas 与 maxPriorityFeePerGas。
+ */
+export const computeReplacementFees = (record: TxRecord, feeData: FeeData): ReplacementFees => {
+  if (record.maxFeePerGas && record.maxPriorityFeePerGas) {
+    const maxPriorityFeePerGas = max(
+      bump(BigInt(record.maxPriorityFeePerGas)),
+      feeData.maxPriorityFeePerGas,
+    );
+    const maxFeePerGas = max(
+      max(bump(BigInt(record.maxFeePerGas)), feeData.maxFeePerGas),
+      maxPriorityFeePerGas,
+    );
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+  if (!record.gasPrice) {
+    throw new Error('交易缺少费用信息，无法计算替换费用');
+  }
+  return { gasPrice: max(bump(BigInt(record.gasPrice)), feeData.gasPrice) };
+};
+
+export const buildReplacementRequest = (
+  record: TxRecord,
+  action: ReplacementAction,
+  fees: ReplacementFees,
+): TransactionRequest => {
+  const base =
+    action === 'cancel'
+      ? { to: record.from, value: 0n, data: '0x', gasLimit: CANCEL_GAS_LIMIT }
+      : {
+          to: record.to,
+          value: BigInt(record.valueWei),
+          data: record.data,
+          gasLimit: BigInt(record.gasLimit),
+        };
+  return { ...base, ...fees, nonce: record.nonce, chainId: BigInt(record.chainId) };
+};
+
+/** 使用同一 nonce 重新发送：加速保持原内容，取消改为发给自己的 0 ETH 交易。 */
+export const sendReplacement = async (
+  signer: Signer,
+  record: TxRecord,
+  action: ReplacementAction,
+): Promise<TransactionResponse> => {
+  if (record.status !== 'pending') {
+    throw new Error('只有等待确认的交易可以加速或取消');
+  }
+  const sender = await signer.getAddress();
+  if (sender.toLowerCase() !== record.from.toLowerCase()) {
+    throw new Error('当前账户不是该交易的发送方');
+  }
+  if (!signer.provider) {
+    throw new Error('签名器未连接 Provider');
+  }
+  const minedNonce = await signer.provider.getTransactionCount(sender, 'latest');
+  if (minedNonce > record.nonce) {
+    throw new Error('该 nonce 已被使用，交易已上链或已被替换');
+  }
+  const fees = computeReplacementFees(record, await signer.provider.getFeeData());
+  return signer.sendTransaction(buildReplacementRequest(record, action, fees));
+};
@@ -0,0 +1,194 @@
+import type { AbstractProvider, TransactionReceipt, TransactionResponse } from 'ethers';
+
+export type TxStatus = 'pending' | 'confirmed' | 'failed' | 'dropped' | 'replaced';
+
+export type TxAction = 'send' | 'speed-up' | 'cancel';
+
+/** 对应 ethers TransactionReplacedError 的 reason。 */
+export type ReplaceReason = 'repriced' | 'cancelled' | 'replaced';
+
+export type TxRecord = {
+  hash: string;
+  chainId: number;
+  from: string;
+  to: string | null;
+  valueWei: string;
+  data: string;
+  nonce: number;
+  gasLimit: string;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  preview: string;
+  status: TxStatus;
+  createdAt: number;
+  updatedAt: number;
+  blockNumber?: number;
+  gasUsed?: string;
+  action?: TxAction;
+  replaces?: string;
+  replacedBy?: string;
+  replaceReason?: ReplaceReason;
+};
+
+const STORAGE_PREFIX = 'sepolia-ethers:txs';
+const PREVIEW_LENGTH = 80;
+// 刚广播或刷新页面后，负载均衡后面的节点可能还没索引到交易，这段时间内查不到也继续视为 pending
+export const DROP_GRACE_MS = 5 * 60_000;
+
+const storageKey = (chainId: number) => `${STORAGE_PREFIX}:${chainId}`;
+
+export const loadTxHistory = (chainId: number): TxRecord[] => {
+  const raw = localStorage.getItem(storageKey(chainId));
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as TxRecord[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveTxHistory = (chainId: number, records: TxRecord[]) => {
+  const sorted = [...records].sort((a, b) => b.createdAt - a.createdAt);
+  localStorage.setItem(storageKey(chainId), JSON.stringify(sorted));
+  return sorted;
+};
+
+export const clearTxHistory = (chainId: number) => {
+  localStorage.removeItem(storageKey(chainId));
+};
+
+export const buildPreview = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+export const recordFromResponse = (
+  tx: TransactionResponse,
+  chainId: number,
+  preview: string,
+): TxRecord => {
+  const now = Date.now();
+  return {
+    hash: tx.hash,
+    chainId,
+    from: tx.from,
+    to: tx.to,
+    valueWei: tx.value.toString(),
+    data: tx.data,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit.toString(),
+    maxFeePerGas: tx.maxFeePerGas?.toString() ?? null,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? null,
+    gasPrice: tx.gasPrice?.toString() ?? null,
+    preview: buildPreview(preview),
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/** 读 - 改 - 写 都在同一个同步调用里完成，多个异步回调交错更新也不会互相覆盖。 */
+export const upsertTxRecord = (record: TxRecord): TxRecord[] => {
+  const records = loadTxHistory(record.chainId).filter((item) => item.hash !== record.hash);
+  return saveTxHistory(record.chainId, [...records, record]);
+};
+
+export const updateTxRecord = (
+  chainId: number,
+  hash: string,
+  patch: Partial<TxRecord>,
+): TxRecord[] => {
+  const records = loadTxHistory(chainId).map((record) =>
+    record.hash === hash ? { ...record, ...patch, updatedAt: Date.now() } : record,
+  );
+  return saveTxHistory(chainId, records);
+};
+
+export const receiptPatch = (receipt: TransactionReceipt): Partial<TxRecord> => ({
+  status: receipt.status === 1 ? 'confirmed' : 'failed',
+  blockNumber: receipt.blockNumber,
+  gasUsed: receipt.gasUsed.toString(),
+});
+
+/**
+ * 记录 tx.wait() 抛出的 TransactionReplacedError：原交易标记为被替换，真正上链的替代交易
+ * 标记为已确认。替代交易可能来自本页面的加速/取消，也可能是用户直接在钱包里操作的。
+ */
+export const applyReplacement = (
+  chainId: number,
+  originalHash: string,
+  replacement: TransactionResponse,
+  receipt: TransactionReceipt,
+  reason: ReplaceReason,
+): TxRecord[] => {
+  const records = updateTxRecord(chainId, originalHash, {
+    status: 'replaced',
+    replacedBy: replacement.hash,
+    replaceReason: reason,
+  });
+  if (records.some((record) => record.hash === replacement.hash)) {
+    return updateTxRecord(chainId, replacement.hash, receiptPatch(receipt));
+  }
+  const original = records.find((record) => record.hash === originalHash);
+  return upsertTxRecord({
+    ...recordFromResponse(replacement, chainId, `[钱包替换] ${original?.preview ?? ''}`),
+    ...receiptPatch(receipt),
+    replaces: originalHash,
+  });
+};
+
+/**
+ * 重新检查一笔 pending（或此前判定为 dropped）的交易：有回执则确认/失败；节点仍能查到则为 pending；
+ * 查不到时，如果同一 nonce 已被占用（账户 nonce 已超过它）视为被替换，发出超过 DROP_GRACE_MS
+ * 仍查不到才视为被丢弃。
+ */
+export const checkPendingTx = async (
+  provider: AbstractProvider,
+  record: TxRecord,
+  history: TxRecord[] = [],
+): Promise<Partial<TxRecord> | null> => {
+  const receipt = await provider.getTransactionReceipt(record.hash);
+  if (receipt) {
+    return receiptPatch(receipt);
+  }
+  const tx = await provider.getTransaction(record.hash);
+  if (tx) {
+    return record.status === 'pending' ? null : { status: 'pending' };
+  }
+  const minedNonce = await provider.getTransactionCount(record.from, 'latest');
+  if (minedNonce <= record.nonce) {
+    if (record.status === 'dropped' || Date.now() - record.createdAt < DROP_GRACE_MS) {
+      return null;
+    }
+    return { status: 'dropped' };
+  }
+  const sibling = history.find(
+    (item) =>
+      item.hash !== record.hash &&
+      item.from.toLowerCase() === record.from.toLowerCase() &&
+      item.nonce === record.nonce &&
+      item.status === 'confirmed',
+  );
+  return { status: 'replaced', replacedBy: sibling?.hash };
+};
+
+export const refreshPendingTxs = async (
+  provider: AbstractProvider,
+  chainId: number,
+): Promise<TxRecord[]> => {
+  let records = loadTxHistory(chainId);
+  // 按发送时间倒序处理：替换交易总是后发出的，先确认它，旧交易才能找到同 nonce 的替代者。
+  // dropped 不是终态：节点之后查到了交易或回执时仍会更新
+  const pending = records
+    .filter((record) => record.status === 'pending' || record.status === 'dropped')
+    .sort((a, b) => b.createdAt - a.createdAt);
+  for (const record of pending) {
+    const patch = await checkPendingTx(provider, record, records);
+    if (patch) {
+      records = updateTxRecord(chainId, record.hash, patch);
+    }
+  }
+  return records;
+};
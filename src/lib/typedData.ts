@@ -0,0 +1,190 @@
+import {
+  TypedDataEncoder,
+  ZeroAddress,
+  concat,
+  getAddress,
+  keccak256,
+  verifyTypedData,
+} from 'ethers';
+import type { TypedDataDomain, TypedDataField } from 'ethers';
+
+export type TypedDataInput = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  value: Record<string, unknown>;
+};
+
+export type TypedDataHashes = {
+  primaryType: string;
+  encodedType: string;
+  domainSeparator: string;
+  structHash: string;
+  digest: string;
+};
+
+export type TypedDataTemplate = 'permit' | 'encryptedMessage';
+
+export type TemplateContext = {
+  chainId: number;
+  address: string;
+  recipient?: string;
+  payloadHash?: string;
+};
+
+const DOMAIN_FIELDS = ['name', 'version', 'chainId', 'verifyingContract', 'salt'];
+
+export const ENCRYPTED_MESSAGE_DOMAIN_NAME = 'Sepolia Ethers Messenger';
+
+const parseJson = (text: string, label: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${label} 不是合法的 JSON`);
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateDomain = (raw: unknown): TypedDataDomain => {
+  if (!isPlainObject(raw)) {
+    throw new Error('domain 必须是对象');
+  }
+  const unknownField = Object.keys(raw).find((key) => !DOMAIN_FIELDS.includes(key));
+  if (unknownField) {
+    throw new Error(`domain 不支持字段 ${unknownField}`);
+  }
+  if (raw.verifyingContract !== undefined) {
+    try {
+      getAddress(String(raw.verifyingContract));
+    } catch {
+      throw new Error('domain.verifyingContract 不是合法地址');
+    }
+  }
+  return raw as TypedDataDomain;
+};
+
+const validateTypes = (raw: unknown): Record<string, TypedDataField[]> => {
+  if (!isPlainObject(raw)) {
+    throw new Error('types 必须是对象');
+  }
+  // EIP712Domain 由 domain 推导，钱包与 ethers 都不接受在 types 中重复声明
+  const entries = Object.entries(raw).filter(([name]) => name !== 'EIP712Domain');
+  if (entries.length === 0) {
+    throw new Error('types 至少需要一个结构体');
+  }
+  entries.forEach(([name, fields]) => {
+    if (
+      !Array.isArray(fields) ||
+      !fields.every(
+        (field) => isPlainObject(field) && typeof field.name === 'string' && typeof field.type === 'string',
+      )
+    ) {
+      throw new Error(`types.${name} 必须是 { name, type } 数组`);
+    }
+  });
+  return Object.fromEntries(entries) as Record<string, TypedDataField[]>;
+};
+
+/** 解析并校验三段 JSON，primaryType 由 TypedDataEncoder 按类型依赖关系推断。 */
+export const parseTypedData = (
+  domainJson: string,
+  typesJson: string,
+  valueJson: string,
+): TypedDataInput => {
+  const domain = validateDomain(parseJson(domainJson, 'domain'));
+  const types = validateTypes(parseJson(typesJson, 'types'));
+  const value = parseJson(valueJson, 'value');
+  if (!isPlainObject(value)) {
+    throw new Error('value 必须是对象');
+  }
+  let primaryType: string;
+  try {
+    primaryType = TypedDataEncoder.from(types).primaryType;
+  } catch (err) {
+    throw new Error(`types 定义不合法：${err instanceof Error ? err.message : String(err)}`);
+  }
+  try {
+    TypedDataEncoder.hash(domain, types, value);
+  } catch (err) {
+    throw new Error(`value 与 types 不匹配：${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { domain, types, primaryType, value };
+};
+
+export const hashTypedData = ({ domain, types, value }: TypedDataInput): TypedDataHashes => {
+  const encoder = TypedDataEncoder.from(types);
+  return {
+    primaryType: encoder.primaryType,
+    encodedType: encoder.encodeType(encoder.primaryType),
+    domainSeparator: TypedDataEncoder.hashDomain(domain),
+    structHash: encoder.hash(value),
+    digest: TypedDataEncoder.hash(domain, types, value),
+  };
+};
+
+export const recoverTypedDataSigner = (
+  { domain, types, value }: TypedDataInput,
+  signature: string,
+): string => {
+  try {
+    return verifyTypedData(domain, types, value, signature.trim());
+  } catch {
+    throw new Error('签名格式不正确，无法恢复签名地址');
+  }
+};
+
+/** 加密消息的作者证明只对各帧 calldata 拼接后的哈希签名，不暴露明文。 */
+export const hashMessagePayload = (frames: string[]) => keccak256(concat(frames));
+
+const TEMPLATES: Record<TypedDataTemplate, (context: TemplateContext) => Omit<TypedDataInput, 'primaryType'>> = {
+  permit: ({ chainId, address, recipient }) => ({
+    domain: {
+      name: 'Example Token',
+      version: '1',
+      chainId,
+      verifyingContract: ZeroAddress,
+    },
+    types: {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+    value: {
+      owner: address || ZeroAddress,
+      spender: recipient || ZeroAddress,
+      value: '1000000000000000000',
+      nonce: '0',
+      deadline: String(Math.floor(Date.now() / 1000) + 3600),
+    },
+  }),
+  encryptedMessage: ({ chainId, address, recipient, payloadHash }) => ({
+    domain: {
+      name: ENCRYPTED_MESSAGE_DOMAIN_NAME,
+      version: '1',
+      chainId,
+    },
+    types: {
+      EncryptedMessage: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'payloadHash', type: 'bytes32' },
+        { name: 'sentAt', type: 'uint64' },
+      ],
+    },
+    value: {
+      from: address || ZeroAddress,
+      to: recipient || ZeroAddress,
+      payloadHash: payloadHash ?? keccak256('0x'),
+      sentAt: String(Math.floor(Date.now() / 1000)),
+    },
+  }),
+};
+
+export const buildTemplate = (template: TypedDataTemplate, context: TemplateContext) =>
+  TEMPLATES[template](context);
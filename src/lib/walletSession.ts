@@ -0,0 +1,136 @@
+import type { AbstractProvider } from 'ethers';
+import { IncomingTx, WatchSource, watchChain } from './chainWatcher';
+import { Unsubscribe, createEmitter } from './emitter';
+
+export type SessionSnapshot = {
+  chainId: number | null;
+  blockNumber: number | null;
+  baseFeePerGas: bigint | null;
+  balanceWei: bigint | null;
+  incoming: IncomingTx[];
+  watchSource: WatchSource | null;
+};
+
+export type SessionEvents = {
+  change: SessionSnapshot;
+  incoming: IncomingTx[];
+  error: unknown;
+};
+
+export type WalletSession = {
+  readonly provider: AbstractProvider;
+  readonly address: string | null;
+  getSnapshot: () => SessionSnapshot;
+  /** 与 React useSyncExternalStore 的 subscribe 签名一致。 */
+  subscribe: (listener: () => void) => Unsubscribe;
+  on: <K extends keyof SessionEvents>(
+    event: K,
+    handler: (payload: SessionEvents[K]) => void,
+  ) => Unsubscribe;
+  refresh: () => Promise<SessionSnapshot>;
+  /** 链被回滚（如开发节点 evm_revert）后重新监听，并清空已失效的入账记录。 */
+  resync: () => Promise<SessionSnapshot>;
+  getBalance: (address: string) => Promise<bigint>;
+  start: () => void;
+  destroy: () => void;
+};
+
+export type WalletSessionOptions = {
+  address?: string | null;
+  pollInterval?: number;
+  incomingLimit?: number;
+};
+
+export const EMPTY_SNAPSHOT: SessionSnapshot = {
+  chainId: null,
+  blockNumber: null,
+  baseFeePerGas: null,
+  balanceWei: null,
+  incoming: [],
+  watchSource: null,
+};
+
+const DEFAULT_INCOMING_LIMIT = 20;
+const PROVIDER_CACHE_MS = 300;
+
+/**
+ * 与界面无关的链上会话：持有一个 provider 与可选的当前地址，维护链 ID、区块、
+ * baseFee、余额与入账交易的快照，并通过事件推送变化。不依赖浏览器钱包，
+ * 传入 JsonRpcProvider（如本地 Anvil）即可在 Node 中使用。
+ */
+export const createWalletSession = (
+  provider: AbstractProvider,
+  { address = null, pollInterval, incomingLimit = DEFAULT_INCOMING_LIMIT }: WalletSessionOptions = {},
+): WalletSession => {
+  const events = createEmitter<SessionEvents>();
+  let snapshot = EMPTY_SNAPSHOT;
+  let stopWatching: Unsubscribe | null = null;
+  let destroyed = false;
+
+  // 快照整体替换，便于 React 按引用判断是否需要重新渲染
+  const update = (patch: Partial<SessionSnapshot>) => {
+    if (destroyed) return;
+    snapshot = { ...snapshot, ...patch };
+    events.emit('change', snapshot);
+  };
+
+  const refresh = async () => {
+    const [blockNumber, network, balanceWei] = await Promise.all([
+      provider.getBlockNumber(),
+      provider.getNetwork(),
+      address ? provider.getBalance(address) : Promise.resolve(null),
+    ]);
+    update({ blockNumber, chainId: Number(network.chainId), balanceWei });
+    return snapshot;
+  };
+
+  const watch = () => {
+    stopWatching = watchChain(provider, {
+      address: address ?? undefined,
+      pollInterval,
+      onBlock: ({ blockNumber, baseFeePerGas }) => update({ blockNumber, baseFeePerGas }),
+      onBalance: (balanceWei) => update({ balanceWei }),
+      onIncoming: (txs) => {
+        update({ incoming: [...[...txs].reverse(), ...snapshot.incoming].slice(0, incomingLimit) });
+        events.emit('incoming', txs);
+      },
+      onSourceChange: (watchSource) => update({ watchSource }),
+      onError: (err) => events.emit('error', err),
+    });
+  };
+
+  const start = () => {
+    if (stopWatching || destroyed) return;
+    refresh().catch((err) => events.emit('error', err));
+    watch();
+  };
+
+  // 监听器只处理比已见区块更高的区块，回滚后必须重新创建；
+  // ethers 会在 cacheTimeout（默认 250ms）内复用相同请求的结果，等缓存过期再读，避免拿到回滚前的区块号
+  const resync = async () => {
+    stopWatching?.();
+    stopWatching = null;
+    update({ incoming: [] });
+    await new Promise((resolve) => setTimeout(resolve, PROVIDER_CACHE_MS));
+    if (!destroyed) watch();
+    return refresh();
+  };
+
+  return {
+    provider,
+    address,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => events.on('change', listener),
+    on: events.on,
+    refresh,
+    resync,
+    getBalance: (target) => provider.getBalance(target),
+    start,
+    destroy: () => {
+      destroyed = true;
+      stopWatching?.();
+      stopWatching = null;
+      events.clear();
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import type { Eip1193Provider } from 'ethers';
+
+export type WalletProvider = Eip1193Provider & {
+  on?: (event: string, handler: (...args: never[]) => void) => void;
+  removeListener?: (event: string, handler: (...args: never[]) => void) => void;
+};
+
+/** EIP-6963 钱包公告中的描述信息，icon 为 data URI。 */
+export type WalletInfo = {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+};
+
+export type WalletOption = {
+  info: WalletInfo;
+  provider: WalletProvider;
+};
+
+const STORAGE_KEY = 'sepolia-ethers:wallet';
+const ANNOUNCE_EVENT = 'eip6963:announceProvider';
+const REQUEST_EVENT = 'eip6963:requestProvider';
+
+const LEGACY_INFO: WalletInfo = {
+  uuid: 'window.ethereum',
+  name: '浏览器注入钱包',
+  icon: '',
+  rdns: 'window.ethereum',
+};
+
+/**
+ * 监听 EIP-6963 钱包公告并主动请求一次。没有钱包实现 EIP-6963 时退回 window.ethereum；
+ * 只有当它与已公告的钱包都不是同一个对象时才额外列出，避免重复。
+ */
+export const discoverWallets = (onChange: (wallets: WalletOption[]) => void): (() => void) => {
+  const announced = new Map<string, WalletOption>();
+
+  const emit = () => {
+    const wallets = [...announced.values()];
+    const legacy = window.ethereum as WalletProvider | undefined;
+    if (legacy && !wallets.some((wallet) => wallet.provider === legacy)) {
+      wallets.push({ info: LEGACY_INFO, provider: legacy });
+    }
+    onChange(wallets);
+  };
+
+  const handleAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<WalletOption>).detail;
+    if (!detail?.info?.uuid || !detail.provider) return;
+    announced.set(detail.info.uuid, detail);
+    emit();
+  };
+
+  window.addEventListener(ANNOUNCE_EVENT, handleAnnounce);
+  window.dispatchEvent(new Event(REQUEST_EVENT));
+  emit();
+  return () => window.removeEventListener(ANNOUNCE_EVENT, handleAnnounce);
+};
+
+export const loadPreferredWallet = () => localStorage.getItem(STORAGE_KEY) ?? '';
+
+export const savePreferredWallet = (rdns: string) => localStorage.setItem(STORAGE_KEY, rdns);
+
+/** 优先上次选择的钱包（按 rdns 匹配，uuid 每次页面加载都会变化）。 */
+export const pickWallet = (wallets: WalletOption[], preferredRdns = loadPreferredWallet()) =>
+  wallets.find((wallet) => wallet.info.rdns === preferredRdns) ?? wallets[0] ?? null;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calldataGas,
+  calldataTokens,
+  ciphertextTokens,
+  fallbackGasLimit,
+  intrinsicGas,
+  intrinsicGasForTokens,
+} from '../src/lib/fees';
+
+describe('fees', () => {
+  it('counts calldata tokens per EIP-2028', () => {
+    expect(calldataTokens('0x')).toBe(0n);
+    expect(calldataTokens('0x0001ff')).toBe(1n + 4n + 4n);
+    expect(ciphertextTokens(10)).toBe(40n);
+  });
+
+  it('prices pure calldata at the EIP-7623 floor', () => {
+    const data = `0x${'00'.repeat(10)}${'ff'.repeat(10)}`;
+    // 10 × 1 + 10 × 4 = 50 个 token，下限 10 gas / token
+    expect(calldataGas(data)).toBe(500n);
+    expect(intrinsicGas(data)).toBe(21000n + 500n);
+    expect(intrinsicGas('0x')).toBe(21000n);
+  });
+
+  it('uses the standard price once execution gas outweighs the floor', () => {
+    // 标准价 50 × 4 + 1000 = 1200，高于下限 500
+    expect(intrinsicGasForTokens(50n, 1000n)).toBe(21000n + 1200n);
+    // 标准价 50 × 4 + 100 = 300 < 下限 500
+    expect(intrinsicGasForTokens(50n, 100n)).toBe(21000n + 500n);
+  });
+
+  it('derives buffered fallback limits from calldata and event size', () => {
+    const data = `0x${'ff'.repeat(100)}`;
+    // 400 个 token：转账按下限 4000，再加 20% 余量
+    expect(fallbackGasLimit(data)).toBe(((21000n + 4000n) * 120n) / 100n);
+    // Messenger 调用：执行余量 30000 + LOG3 1500 + 每字节 8，标准价高于下限
+    const execution = 30000n + 1500n + 8n * 100n;
+    expect(fallbackGasLimit(data, 100, true)).toBe(((21000n + 1600n + execution) * 120n) / 100n);
+  });
+});
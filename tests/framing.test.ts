@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FRAME_HEADER_LENGTH,
+  decodeContent,
+  encodeContent,
+  isFramedPayload,
+  missingSequences,
+  packMessage,
+  parseFrame,
+  unpackMessage,
+} from '../src/lib/framing';
+
+// 不加密，只验证分帧、压缩与重组
+const identity = async (bytes: Uint8Array) => bytes;
+
+describe('framing', () => {
+  it('round-trips a compressed single-frame message', async () => {
+    const content = JSON.stringify({ text: 'hello '.repeat(50) });
+    const [hex, ...rest] = await packMessage({
+      body: encodeContent(content, 'json'),
+      contentType: 'json',
+      compress: true,
+      encrypt: identity,
+    });
+    expect(rest).toHaveLength(0);
+    expect(isFramedPayload(hex)).toBe(true);
+
+    const frame = parseFrame(hex);
+    expect(frame).toMatchObject({ contentType: 'json', compressed: true, sequence: 0, total: 1 });
+    const message = await unpackMessage([frame], identity);
+    expect(JSON.parse(decodeContent(message.body, message.contentType))).toEqual(JSON.parse(content));
+  });
+
+  it('skips compression when it does not shrink the body', async () => {
+    const body = crypto.getRandomValues(new Uint8Array(256));
+    const [hex] = await packMessage({ body, contentType: 'binary', compress: true, encrypt: identity });
+    const frame = parseFrame(hex);
+    expect(frame.compressed).toBe(false);
+    expect((await unpackMessage([frame], identity)).body).toEqual(body);
+  });
+
+  it('splits the ciphertext into chunks and reassembles them in any order', async () => {
+    const body = crypto.getRandomValues(new Uint8Array(100));
+    const hexes = await packMessage({
+      body,
+      contentType: 'binary',
+      compress: false,
+      encrypt: identity,
+      chunkSize: 32,
+    });
+    const frames = hexes.map(parseFrame);
+    expect(frames.map((frame) => [frame.sequence, frame.total])).toEqual([[0, 4], [1, 4], [2, 4], [3, 4]]);
+    expect(new Set(frames.map((frame) => frame.messageId)).size).toBe(1);
+    expect(frames.map((frame) => frame.payload.length)).toEqual([32, 32, 32, 4]);
+    expect(hexes[0].length).toBe(2 + (FRAME_HEADER_LENGTH + 32) * 2);
+
+    const shuffled = [frames[2], frames[0], frames[3], frames[1], frames[0]];
+    expect((await unpackMessage(shuffled, identity)).body).toEqual(body);
+  });
+
+  it('reports missing or foreign frames', async () => {
+    const body = new Uint8Array(70).fill(7);
+    const pack = async () =>
+      (
+        await packMessage({ body, contentType: 'binary', compress: false, encrypt: identity, chunkSize: 32 })
+      ).map(parseFrame);
+    const [first, second, third] = await pack();
+    expect(missingSequences([first, third])).toEqual([1]);
+    await expect(unpackMessage([first, third], identity)).rejects.toThrow('缺少第 2 段');
+
+    const [, otherSecond] = await pack();
+    await expect(unpackMessage([first, otherSecond, third], identity)).rejects.toThrow('不属于同一条消息');
+    expect(missingSequences([first, second, third])).toEqual([]);
+  });
+
+  it('does not treat plain calldata as a frame', () => {
+    expect(isFramedPayload('0x')).toBe(false);
+    expect(isFramedPayload('0xa9059cbb')).toBe(false);
+    expect(isFramedPayload('not hex')).toBe(false);
+    expect(() => parseFrame('0x1234')).toThrow('不是加密消息帧');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getBytes, hexlify } from 'ethers';
+import {
+  decryptText,
+  describeCipherHex,
+  encryptText,
+  encryptTextToEnvelope,
+  encryptTextToHex,
+} from '../src/lib/hexCipher';
+
+const flipByte = (hex: string, index: number) => {
+  const bytes = getBytes(hex);
+  bytes[index] ^= 0x01;
+  return hexlify(bytes);
+};
+
+describe('hexCipher', () => {
+  it('decrypts legacy XOR ciphertext produced by earlier versions', async () => {
+    // 早期版本用默认口令加密 “Hello, Sepolia!” 得到的密文，已经上链的数据必须保持可读
+    const legacy = '0x9ec4ff0122051e009ca9d9f95d3213';
+    expect(encryptTextToHex('Hello, Sepolia!', 'sepolia-demo-key')).toBe(legacy);
+    expect(describeCipherHex(legacy)).toEqual({ kind: 'legacy' });
+    expect(await decryptText(legacy, 'sepolia-demo-key')).toBe('Hello, Sepolia!');
+  });
+
+  it('falls back to XOR when legacy ciphertext happens to start with the envelope magic', async () => {
+    // 首字节 0x22 ^ 'k' ^ 0xa5 = 0xec，但版本与算法字节无效
+    const text = `"${'x'.repeat(60)}`;
+    const cipherHex = await encryptText(text, 'k', 'xor');
+    expect(cipherHex.slice(0, 4)).toBe('0xec');
+    expect(describeCipherHex(cipherHex)).toEqual({ kind: 'legacy' });
+    expect(await decryptText(cipherHex, 'k')).toBe(text);
+  });
+
+  it('round-trips AES-GCM envelopes for both key derivations', async () => {
+    const pbkdf2 = await encryptText('secret', 'pass', 'aes-gcm');
+    expect(describeCipherHex(pbkdf2)).toMatchObject({ kind: 'envelope', algorithmId: 0x01 });
+    expect(await decryptText(pbkdf2, 'pass')).toBe('secret');
+
+    const scrypt = await encryptTextToEnvelope('secret', 'pass', 0x02);
+    expect(describeCipherHex(scrypt)).toMatchObject({ kind: 'envelope', algorithmId: 0x02 });
+    expect(await decryptText(scrypt, 'pass')).toBe('secret');
+  });
+
+  it('rejects wrong keys and tampered AES-GCM envelopes', async () => {
+    const cipherHex = await encryptText('secret', 'pass', 'aes-gcm');
+    const length = getBytes(cipherHex).length;
+    await expect(decryptText(cipherHex, 'wrong')).rejects.toThrow('密钥错误或密文已被篡改');
+    // salt、nonce、密文与认证标签任意一位被改动都无法通过校验
+    for (const index of [3, 3 + 16, 31, length - 1]) {
+      await expect(decryptText(flipByte(cipherHex, index), 'pass')).rejects.toThrow('已被篡改');
+    }
+  });
+});
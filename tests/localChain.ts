@@ -0,0 +1,17 @@
+import hre from 'hardhat';
+import { BrowserProvider, HDNodeWallet } from 'ethers';
+import type { HardhatNetworkHDAccountsConfig } from 'hardhat/types';
+
+/** 进程内的 Hardhat Network：每个测试文件开始前重置为新链，账户为 Hardhat 默认助记词派生。 */
+export const startLocalChain = async () => {
+  const node = hre.network.provider;
+  await node.request({ method: 'hardhat_reset', params: [] });
+  const provider = new BrowserProvider(node);
+  const [sender, recipient] = await provider.listAccounts();
+  // 接收方私钥用于解密 ECIES 消息
+  const { mnemonic, path } = hre.config.networks.hardhat.accounts as HardhatNetworkHDAccountsConfig;
+  const recipientWallet = HDNodeWallet.fromPhrase(mnemonic, undefined, `${path}/1`);
+  return { provider, sender, recipient, recipientWallet, stop: () => provider.destroy() };
+};
+
+export type LocalChain = Awaited<ReturnType<typeof startLocalChain>>;
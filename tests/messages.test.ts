@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAttachment } from '../src/lib/attachments';
+import { encodeContent, packMessage, parseFrame } from '../src/lib/framing';
+import { encryptorFor, readFramedMessage } from '../src/lib/messages';
+
+const attachment = { name: 'note.txt', mimeType: 'text/plain', bytes: new TextEncoder().encode('hello') };
+
+const framesOf = async (mode: 'xor' | 'aes-gcm', body: Uint8Array, contentType: 'text' | 'file') =>
+  (await packMessage({ body, contentType, compress: false, encrypt: encryptorFor(mode, 'right') })).map(
+    parseFrame,
+  );
+
+describe('readFramedMessage', () => {
+  it('reads legacy XOR text with the right passphrase', async () => {
+    const frames = await framesOf('xor', encodeContent('hello legacy', 'text'), 'text');
+    const message = await readFramedMessage(frames, { passphrases: ['right'] });
+    expect(message.content).toBe('hello legacy');
+  });
+
+  it('rejects legacy XOR attachments even with the right passphrase', async () => {
+    const frames = await framesOf('xor', encodeAttachment(attachment), 'file');
+    await expect(readFramedMessage(frames, { passphrases: ['wrong', 'right'] })).rejects.toThrow('异或');
+  });
+
+  it('reads AES-GCM attachments and skips wrong passphrases', async () => {
+    const frames = await framesOf('aes-gcm', encodeAttachment(attachment), 'file');
+    const message = await readFramedMessage(frames, { passphrases: ['wrong', 'right'] });
+    expect(message.attachment).toMatchObject({ name: 'note.txt', mimeType: 'text/plain' });
+    expect(message.attachment?.bytes).toEqual(attachment.bytes);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseEther } from 'ethers';
+import { LocalChain, startLocalChain } from './localChain';
+import { MessageDraft, MessagingClient, createMessagingClient, describePayload } from '../src/lib/messagingClient';
+import { DEFAULT_CHUNK_SIZE } from '../src/lib/framing';
+
+const FEES = { gasPrice: 2_000_000_000n };
+
+describe('createMessagingClient', () => {
+  let chain: LocalChain;
+  let client: MessagingClient;
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    client = createMessagingClient(chain.provider);
+  });
+
+  afterAll(() => chain.stop());
+
+  const draft = (patch: Partial<MessageDraft> = {}): MessageDraft => ({
+    to: chain.recipient.address,
+    content: 'hello local chain',
+    contentType: 'text',
+    compress: true,
+    mode: 'aes-gcm',
+    key: 'test-key',
+    ...patch,
+  });
+
+  const sendAndWait = async (patch: Partial<MessageDraft> = {}) => {
+    const message = await client.compose(draft(patch));
+    const txs = await client.send(message, { signer: chain.sender, fees: FEES });
+    await Promise.all(txs.map((tx) => tx.wait()));
+    return { message, txs };
+  };
+
+  it('composes a single framed request to the recipient', async () => {
+    const message = await client.compose(draft({ value: parseEther('0.1') }));
+    expect(message.to).toBe(chain.recipient.address);
+    expect(message.frames).toHaveLength(1);
+    expect(message.requests[0].request).toMatchObject({ to: chain.recipient.address, value: parseEther('0.1') });
+    const [estimate] = await client.estimate(message, chain.sender.address);
+    expect(estimate.estimated).toBe(true);
+  });
+
+  it('sends, looks up and decrypts a message', async () => {
+    const progress: string[] = [];
+    const offGas = client.on('gas', ({ index, total }) => progress.push(`gas ${index}/${total}`));
+    const offSent = client.on('sent', ({ index, total }) => progress.push(`sent ${index}/${total}`));
+    const { txs } = await sendAndWait({ value: parseEther('0.25') });
+    offGas();
+    offSent();
+    expect(progress).toEqual(['gas 0/1', 'sent 0/1']);
+
+    const { info } = await client.lookup(txs[0].hash);
+    expect(info).toMatchObject({ from: chain.sender.address, to: chain.recipient.address, valueEth: '0.25', status: 1 });
+
+    const message = await client.decryptPayload(info.data, { passphrases: ['other', 'test-key'] });
+    expect(message).toMatchObject({ content: 'hello local chain', format: 'framed', totalFrames: 1 });
+    await expect(client.decryptPayload(info.data, { passphrases: ['wrong'] })).rejects.toThrow();
+  });
+
+  it('reads ECIES messages with the recipient private key', async () => {
+    const { txs } = await sendAndWait({
+      content: '{"secret":true}',
+      contentType: 'json',
+      mode: 'ecies',
+      key: chain.recipientWallet.signingKey.publicKey,
+    });
+    const result = await client.read(txs[0].hash, {
+      keys: () => ({ passphrases: [], privateKey: chain.recipientWallet.privateKey }),
+    });
+    expect(result.error).toBeNull();
+    expect(JSON.parse(result.message?.content ?? '')).toEqual({ secret: true });
+    expect(describePayload(result.message!)).toContain('JSON');
+
+    const withoutKey = await client.read(txs[0].hash, { keys: () => ({ passphrases: ['test-key'] }) });
+    expect(withoutKey.message).toBeNull();
+    expect(withoutKey.error).toBeTruthy();
+  });
+
+  it('reassembles a multi-frame attachment from extra hashes', async () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(DEFAULT_CHUNK_SIZE + 1024));
+    const { message, txs } = await sendAndWait({
+      attachment: { name: 'noise.bin', mimeType: 'application/octet-stream', bytes },
+    });
+    expect(message.frames.length).toBe(2);
+    expect(txs).toHaveLength(2);
+
+    const partial = await client.read(txs[0].hash, { keys: () => ({ passphrases: ['test-key'] }) });
+    expect(partial.message).toBeNull();
+    expect(partial.error).toBeTruthy();
+
+    const result = await client.read(txs[0].hash, {
+      keys: () => ({ passphrases: ['test-key'] }),
+      extraHashes: [txs[1].hash],
+    });
+    expect(result.message?.contentType).toBe('file');
+    expect(result.message?.attachment?.name).toBe('noise.bin');
+    expect(result.message?.attachment?.bytes).toEqual(bytes);
+  });
+
+  it('does not try to decrypt plain transfers', async () => {
+    const tx = await chain.sender.sendTransaction({ to: chain.recipient.address, value: 1n, ...FEES });
+    await tx.wait();
+    let asked = false;
+    const result = await client.read(tx.hash, {
+      keys: () => {
+        asked = true;
+        return { passphrases: [] };
+      },
+    });
+    expect(result.info.data).toBe('0x');
+    expect(result).toMatchObject({ message: null, error: null });
+    expect(asked).toBe(false);
+  });
+
+  it('rejects missing transactions and invalid drafts', async () => {
+    await expect(client.lookup(`0x${'00'.repeat(32)}`)).rejects.toThrow('未找到交易');
+    await expect(client.compose(draft({ mode: 'ecies', key: ' ' }))).rejects.toThrow('公钥');
+    const attachment = { name: 'a.bin', mimeType: 'application/octet-stream', bytes: new Uint8Array([1]) };
+    await expect(client.compose(draft({ mode: 'xor', attachment }))).rejects.toThrow('异或');
+    await expect(
+      client.compose(draft({ messenger: chain.sender.address, value: 1n })),
+    ).rejects.toThrow('Messenger');
+  });
+});
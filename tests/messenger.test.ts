@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Contract, hexlify, toUtf8Bytes } from 'ethers';
+import { LocalChain, startLocalChain } from './localChain';
+import {
+  MESSENGER_ABI,
+  decodeMessengerTx,
+  deployMessenger,
+  encodePostMessage,
+  fetchMessengerMessages,
+} from '../src/lib/messenger';
+
+const FEES = { gasPrice: 2_000_000_000n };
+
+describe('Messenger contract', () => {
+  let chain: LocalChain;
+  let messenger: string;
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+    messenger = await deployMessenger(chain.sender);
+  });
+
+  afterAll(() => chain.stop());
+
+  it('deploys the embedded bytecode', async () => {
+    expect(await chain.provider.getCode(messenger)).not.toBe('0x');
+  });
+
+  it('round-trips postMessage through decodeMessengerTx', async () => {
+    const payload = hexlify(toUtf8Bytes('postMessage round trip'));
+    const contract = new Contract(messenger, MESSENGER_ABI, chain.sender);
+    const tx = await contract.postMessage(chain.recipient.address, payload, FEES);
+    const receipt = await tx.wait();
+
+    expect(decodeMessengerTx(tx, receipt.logs)).toEqual({
+      to: chain.recipient.address,
+      payload,
+      source: 'log',
+    });
+    // 未上链或没有回执时退回到 calldata
+    expect(decodeMessengerTx(tx)).toEqual({ to: chain.recipient.address, payload, source: 'calldata' });
+    // 只认交易目标合约发出的事件
+    expect(decodeMessengerTx({ to: chain.recipient.address, data: '0x' }, receipt.logs)).toBeNull();
+  });
+
+  it('reads messages sent with encodePostMessage through event filters', async () => {
+    const payload = hexlify(toUtf8Bytes('via event filter'));
+    const tx = await chain.sender.sendTransaction({
+      to: messenger,
+      data: encodePostMessage(chain.recipient.address, payload),
+      ...FEES,
+    });
+    const receipt = await tx.wait();
+
+    const messages = await fetchMessengerMessages({
+      provider: chain.provider,
+      contractAddress: messenger,
+      to: chain.recipient.address,
+      fromBlock: 0,
+      toBlock: receipt!.blockNumber,
+    });
+    expect(messages.at(-1)).toMatchObject({ hash: tx.hash, from: chain.sender.address, payload });
+    expect(
+      await fetchMessengerMessages({
+        provider: chain.provider,
+        contractAddress: messenger,
+        from: chain.recipient.address,
+        fromBlock: 0,
+        toBlock: receipt!.blockNumber,
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseEther } from 'ethers';
+import { LocalChain, startLocalChain } from './localChain';
+import { EMPTY_SNAPSHOT, createWalletSession } from '../src/lib/walletSession';
+import type { IncomingTx } from '../src/lib/chainWatcher';
+
+describe('createWalletSession', () => {
+  let chain: LocalChain;
+
+  beforeAll(async () => {
+    chain = await startLocalChain();
+  });
+
+  afterAll(() => chain.stop());
+
+  it('refreshes chain id, block number and balance', async () => {
+    const session = createWalletSession(chain.provider, { address: chain.recipient.address });
+    expect(session.getSnapshot()).toBe(EMPTY_SNAPSHOT);
+    const changes: number[] = [];
+    session.subscribe(() => changes.push(changes.length));
+
+    const snapshot = await session.refresh();
+    expect(snapshot.chainId).toBe(31337);
+    expect(snapshot.blockNumber).toBe(await chain.provider.getBlockNumber());
+    expect(snapshot.balanceWei).toBe(await chain.provider.getBalance(chain.recipient.address));
+    expect(session.getSnapshot()).toBe(snapshot);
+    expect(changes).toHaveLength(1);
+    session.destroy();
+  });
+
+  it('reports incoming transfers to the watched address', async () => {
+    const session = createWalletSession(chain.provider, {
+      address: chain.recipient.address,
+      pollInterval: 100,
+    });
+    const incoming = new Promise<IncomingTx[]>((resolve) => session.on('incoming', resolve));
+    session.start();
+    await session.refresh();
+
+    const tx = await chain.sender.sendTransaction({
+      to: chain.recipient.address,
+      value: parseEther('1'),
+      gasPrice: 2_000_000_000n,
+    });
+    await tx.wait();
+
+    const [received] = await incoming;
+    expect(received).toMatchObject({ hash: tx.hash, from: chain.sender.address, valueWei: parseEther('1') });
+    await expect.poll(() => session.getSnapshot().incoming.length).toBe(1);
+    expect(session.getSnapshot().watchSource).not.toBeNull();
+    session.destroy();
+  });
+
+  it('stops emitting after destroy', async () => {
+    const session = createWalletSession(chain.provider, { address: chain.recipient.address });
+    let changes = 0;
+    session.subscribe(() => {
+      changes += 1;
+    });
+    session.destroy();
+    await session.refresh();
+    expect(changes).toBe(0);
+    expect(session.getSnapshot()).toBe(EMPTY_SNAPSHOT);
+  });
+});